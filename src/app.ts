@@ -1,5 +1,6 @@
 import "dotenv/config";
 import express, { type Request, type Response } from "express";
+import { LinearDocument as L } from "@linear/sdk";
 import {
   LinearWebhookClient,
   type AgentSessionEventWebhookPayload,
@@ -11,15 +12,36 @@ import {
 } from "./lib/oauth.js";
 import { AgentClient, PreviousComment } from "./lib/agent/agentClient.js";
 import {
+  conversationStore,
+  createInputChannel,
+  initSessionPersistence,
   sessionRegistry,
+  type ConversationRecord,
   type InteractionType,
-} from "./lib/session/sessionRegistry.js";
+  type PersistedSession,
+} from "./lib/session/index.js";
+import { restartPrompt } from "./lib/agent/prompt.js";
+import { jobQueue } from "./lib/queue/index.js";
+import { checkBudgets, usageLedger } from "./lib/usage/index.js";
+import {
+  getBotConfig,
+  getRepositoryKey,
+  type RepositoryTarget,
+} from "./lib/config/index.js";
 
 // Session deduplication cache to prevent processing Linear webhook retries
-// Keyed by agentSession.id since webhookId is a static endpoint identifier
+// Keyed by agentSession.id since webhookId is a static endpoint identifier,
+// or by agentActivity.id for prompts on an existing session
 const processedSessions = new Map<string, number>();
 const SESSION_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
+// Linear session statuses for which there is nothing left to stop
+const TERMINAL_SESSION_STATUSES: string[] = [
+  L.AgentSessionStatus.Complete,
+  L.AgentSessionStatus.Error,
+  L.AgentSessionStatus.Stale,
+];
+
 function cleanupSessionCache() {
   const now = Date.now();
   for (const [id, timestamp] of processedSessions) {
@@ -29,9 +51,31 @@ function cleanupSessionCache() {
   }
 }
 
+/**
+ * Check whether the webhook carries a stop signal for the agent session.
+ * See https://linear.app/developers/agent-signals
+ */
+function isStopSignal(payload: AgentSessionEventWebhookPayload): boolean {
+  return payload.agentActivity?.signal === L.AgentActivitySignal.Stop;
+}
+
+/**
+ * Extract the user's message from a prompted webhook.
+ */
+function extractPromptBody(payload: AgentSessionEventWebhookPayload): string {
+  const content = payload.agentActivity?.content as
+    | { body?: string }
+    | undefined;
+  return content?.body?.trim() ?? "";
+}
+
 /**
  * Determine the interaction type from the webhook payload.
  *
+ * Prompts on an existing session are either user responses (the session is
+ * still running, e.g. awaiting an answer to a question the agent asked) or
+ * follow-ups that resume the session's stored conversation.
+ *
  * Issue assignments have a system-generated comment like:
  * "This thread is for an agent session with {agentName}."
  *
@@ -40,6 +84,15 @@ function cleanupSessionCache() {
 function getInteractionType(
   payload: AgentSessionEventWebhookPayload
 ): InteractionType {
+  if (payload.action === "prompted") {
+    if (sessionRegistry.has(payload.agentSession.id)) {
+      return "user_response";
+    }
+    if (conversationStore.has(payload.agentSession.id)) {
+      return "follow_up";
+    }
+  }
+
   // If previousComments exists with content, this is a question in an existing thread
   if (payload.previousComments && payload.previousComments.length > 0) {
     return "question";
@@ -87,6 +140,10 @@ app.get("/status", (_req: Request, res: Response) => {
       hasAnthropicApiKey: !!process.env.ANTHROPIC_API_KEY,
       hasGithubToken: !!process.env.GITHUB_TOKEN,
       repoBasePath: process.env.REPO_BASE_PATH || "not configured",
+      repositories:
+        getBotConfig().repositories?.map((repository) => repository.name) ??
+        [],
+      queueLimits: jobQueue.limits,
       tailscaleHostname: process.env.TAILSCALE_HOSTNAME || "not configured",
     },
     timestamp: new Date().toISOString(),
@@ -102,16 +159,38 @@ app.get("/sessions", (_req: Request, res: Response) => {
     sessionId: session.sessionId,
     ticketId: session.ticketId,
     interactionType: session.interactionType,
+    state: session.state,
+    queuePosition: jobQueue.getPosition(session.sessionId),
     startedAt: session.startedAt,
     worktreePath: session.worktreePath,
+    awaitingInput: !!session.pendingQuestion,
+    usage: session.usage,
   }));
 
   res.json({
     count: sessions.length,
+    running: jobQueue.runningCount,
+    queued: jobQueue.queuedCount,
     sessions,
   });
 });
 
+/**
+ * Usage endpoint with spending per team and month
+ */
+app.get("/usage", (_req: Request, res: Response) => {
+  const now = new Date();
+  const today = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+
+  res.json({
+    spentTodayUsd: usageLedger.getCostSince(today),
+    budgets: getBotConfig().budgets,
+    teams: usageLedger.aggregate(),
+  });
+});
+
 /**
  * Root endpoint
  */
@@ -150,16 +229,26 @@ handler.on("AgentSessionEvent", (payload) => {
   const { promptContext, ...payloadWithoutPromptContext } = payload as AgentSessionEventWebhookPayload & { promptContext?: unknown };
   console.dir(payloadWithoutPromptContext, { depth: 1 });
 
-  // Deduplicate by session ID to prevent processing Linear retries
+  // Stop signals arrive on an already-processed session, so handle them
+  // before deduplication
+  if (isStopSignal(payload)) {
+    handleStopSignal(payload).catch((error) => {
+      console.error("Error handling stop signal:", error);
+    });
+    return;
+  }
+
+  // Deduplicate by session ID (or activity ID for follow-up prompts) to
+  // prevent processing Linear retries
   // webhookId is a static webhook endpoint identifier, not unique per event
-  const sessionId = payload.agentSession?.id;
-  if (sessionId && processedSessions.has(sessionId)) {
-    console.log(`Skipping duplicate webhook for session: ${sessionId}`);
+  const eventId = payload.agentActivity?.id ?? payload.agentSession?.id;
+  if (eventId && processedSessions.has(eventId)) {
+    console.log(`Skipping duplicate webhook for event: ${eventId}`);
     return;
   }
 
-  if (sessionId) {
-    processedSessions.set(sessionId, Date.now());
+  if (eventId) {
+    processedSessions.set(eventId, Date.now());
     cleanupSessionCache();
   }
 
@@ -193,6 +282,21 @@ async function handleAgentSessionEvent(
 
   const sessionId = webhook.agentSession.id;
   const ticketId = webhook.agentSession.issue?.identifier || "unknown";
+  const interactionType = getInteractionType(webhook);
+
+  // Route messages to the running session, e.g. answers to its question.
+  // Messages to a queued session are held until its run has started
+  if (interactionType === "user_response") {
+    const message = extractPromptBody(webhook);
+    if (!message) {
+      console.warn(`Empty prompt received for session: ${sessionId}`);
+      return;
+    }
+
+    const agentClient = new AgentClient(token);
+    await agentClient.handleUserResponse(sessionId, message);
+    return;
+  }
 
   // Check if this session is already being processed
   if (sessionRegistry.has(sessionId)) {
@@ -202,30 +306,256 @@ async function handleAgentSessionEvent(
     return;
   }
 
-  const interactionType = getInteractionType(webhook);
+  // Follow-ups resume the conversation stored for the session
+  const conversation =
+    interactionType === "follow_up"
+      ? conversationStore.get(sessionId)
+      : undefined;
+  const followUpMessage = extractPromptBody(webhook);
+  if (conversation && !followUpMessage) {
+    console.warn(`Empty prompt received for session: ${sessionId}`);
+    return;
+  }
+
+  const agentClient = new AgentClient(token);
+  await scheduleSession({
+    sessionId,
+    ticketId,
+    organizationId: webhook.organizationId,
+    issueId: webhook.agentSession.issue?.id,
+    interactionType: conversation?.interactionType ?? interactionType,
+    // Follow-ups stay in the repository the conversation started in
+    repository: conversation?.repository,
+    agentClient,
+    run: async (repository) => {
+      if (conversation) {
+        await agentClient.handleFollowUp(
+          sessionId,
+          conversation,
+          followUpMessage,
+          repository
+        );
+      } else {
+        await agentClient.handleUserPrompt(
+          webhook.agentSession,
+          interactionType,
+          repository,
+          (webhook.previousComments as PreviousComment[] | undefined) ?? undefined // Pass for context in questions
+        );
+      }
+    },
+  });
+}
+
+/**
+ * Register a session, resolve its repository and run it through the job
+ * queue. Resolves once the session has finished (or was cancelled while
+ * queued, or no repository matched).
+ */
+async function scheduleSession(options: {
+  sessionId: string;
+  ticketId: string;
+  organizationId: string;
+  issueId?: string;
+  interactionType: InteractionType;
+  /** Skips routing, e.g. for follow-ups on a known repository */
+  repository?: RepositoryTarget;
+  agentClient: AgentClient;
+  run: (repository: RepositoryTarget) => Promise<void>;
+}): Promise<void> {
+  const { sessionId, ticketId, issueId, agentClient } = options;
+  const abortController = new AbortController();
+
+  // A stop signal may arrive before the session reaches the queue; it
+  // aborts the registered session, so it is acknowledged here
+  const acknowledgeEarlyStop = async (): Promise<boolean> => {
+    if (!abortController.signal.aborted) {
+      return false;
+    }
+    await agentClient.acknowledgeStop(
+      sessionId,
+      sessionRegistry.get(sessionId)?.abortReason
+    );
+    return true;
+  };
 
   // Register the session BEFORE processing to prevent duplicate handling
   sessionRegistry.register({
     sessionId,
     ticketId,
-    abortController: new AbortController(),
+    organizationId: options.organizationId,
+    abortController,
     startedAt: new Date(),
-    interactionType,
+    interactionType: options.interactionType,
+    state: "queued",
+    inputChannel: createInputChannel(),
   });
 
-  console.log(`Processing new session: ${sessionId} (ticket: ${ticketId})`);
+  console.log(`Queueing session: ${sessionId} (ticket: ${ticketId})`);
 
   try {
-    const agentClient = new AgentClient(token);
-    await agentClient.handleUserPrompt(
-      webhook.agentSession,
-      interactionType,
-      (webhook.previousComments as PreviousComment[] | undefined) ?? undefined // Pass for context in questions
-    );
+    const budgetReason = checkBudgets(sessionId);
+    if (budgetReason) {
+      await agentClient.reportBudgetExceeded(sessionId, budgetReason);
+      return;
+    }
+
+    const repository =
+      options.repository ??
+      (await agentClient.resolveRepository(
+        sessionId,
+        options.organizationId,
+        issueId
+      ));
+    if (!repository) {
+      return;
+    }
+
+    const priority = issueId ? await agentClient.getIssuePriority(issueId) : 0;
+    if (await acknowledgeEarlyStop()) {
+      return;
+    }
+
+    await jobQueue.enqueue({
+      sessionId,
+      repoKey: getRepositoryKey(repository),
+      priority,
+      onPositionChange: (ahead) =>
+        agentClient.reportQueuePosition(sessionId, ahead),
+      run: async () => {
+        // Spending may have reached a budget while the session was queued
+        const reason = checkBudgets(sessionId);
+        if (reason) {
+          await agentClient.reportBudgetExceeded(sessionId, reason);
+          return;
+        }
+        sessionRegistry.setState(sessionId, "running");
+        await options.run(repository);
+      },
+    });
   } finally {
     // Always unregister when done (success or failure)
     sessionRegistry.unregister(sessionId);
   }
 }
 
+/**
+ * Recover sessions interrupted by a restart. Sessions with a saved SDK
+ * conversation are resumed; the others get an error explaining the restart.
+ * Sessions that were awaiting input resume when the user replies.
+ */
+export async function recoverSessions(): Promise<void> {
+  const interrupted = await initSessionPersistence();
+
+  for (const session of interrupted) {
+    recoverSession(session).catch((error) => {
+      console.error(`Failed to recover session ${session.sessionId}:`, error);
+    });
+  }
+}
+
+async function recoverSession(session: PersistedSession): Promise<void> {
+  const token = await getOAuthToken(session.organizationId);
+  if (!token) {
+    console.error(
+      "Linear OAuth token not found for organizationId:",
+      session.organizationId
+    );
+    return;
+  }
+
+  const agentClient = new AgentClient(token);
+  const { sessionId, ticketId, interactionType, sdkSessionId } = session;
+
+  if (
+    !sdkSessionId ||
+    (interactionType !== "issue_assignment" && interactionType !== "question")
+  ) {
+    console.log(`Cannot resume interrupted session: ${sessionId}`);
+    await agentClient.reportRestart(sessionId, false);
+    return;
+  }
+
+  const conversation: ConversationRecord = {
+    sessionId,
+    ticketId,
+    interactionType,
+    sdkSessionId,
+    worktreePath: session.worktreePath,
+    repository: conversationStore.get(sessionId)?.repository,
+    updatedAt: new Date(),
+  };
+
+  // The user's reply to the pending question arrives as a follow-up
+  if (session.state === "awaiting_input") {
+    conversationStore.save(conversation);
+    return;
+  }
+
+  console.log(`Resuming interrupted session: ${sessionId}`);
+  await agentClient.reportRestart(sessionId, true);
+  await scheduleSession({
+    sessionId,
+    ticketId,
+    organizationId: session.organizationId,
+    interactionType,
+    // Linear resolves ticket identifiers as issue IDs
+    issueId: ticketId !== "unknown" ? ticketId : undefined,
+    repository: conversation.repository,
+    agentClient,
+    run: (repository) =>
+      agentClient.handleFollowUp(
+        sessionId,
+        conversation,
+        restartPrompt(),
+        repository
+      ),
+  });
+}
+
+/**
+ * Handle a stop signal by aborting the running agent for the session.
+ */
+async function handleStopSignal(
+  webhook: AgentSessionEventWebhookPayload
+): Promise<void> {
+  const sessionId = webhook.agentSession.id;
+  console.log(`Received stop signal for session: ${sessionId}`);
+
+  // Queued sessions never started, so there is nothing to clean up
+  if (jobQueue.cancel(sessionId)) {
+    const token = await getOAuthToken(webhook.organizationId);
+    if (token) {
+      await new AgentClient(token).acknowledgeStop(sessionId);
+    }
+    return;
+  }
+
+  // Sessions not yet queued acknowledge the stop before queueing; running
+  // handlers clean up their worktree and acknowledge it once the agent has
+  // shut down
+  if (sessionRegistry.abort(sessionId)) {
+    return;
+  }
+
+  if (TERMINAL_SESSION_STATUSES.includes(webhook.agentSession.status)) {
+    console.log(
+      `Session ${sessionId} is already ${webhook.agentSession.status} - ignoring stop signal`
+    );
+    return;
+  }
+
+  const token = await getOAuthToken(webhook.organizationId);
+  if (!token) {
+    console.error(
+      "Linear OAuth token not found for organizationId:",
+      webhook.organizationId
+    );
+    return;
+  }
+
+  const agentClient = new AgentClient(token);
+  await agentClient.acknowledgeStop(sessionId);
+}
+
 export default app;
@@ -2,15 +2,44 @@
 // CLI Implementation
 import "dotenv/config";
 import path from "node:path";
-import app from "./app.js";
+import { LinearClient } from "@linear/sdk";
+import app, { recoverSessions } from "./app.js";
 import { CLIClient } from "./lib/agent/agentClient.js";
 import {
   cleanupWorktree,
   createWorktree,
   getRepoPaths,
 } from "./lib/workflow/worktreeLifecycle.js";
-import { setupEnvironment } from "./lib/workflow/index.js";
-import { implementationPrompt } from "./lib/agent/prompt.js";
+import {
+  createExecutionContext,
+  describeBaseBranch,
+  formatSetupFailures,
+  formatSetupStep,
+  resolveBaseBranch,
+  setupEnvironment,
+  type BaseBranchTicket,
+} from "./lib/workflow/index.js";
+import {
+  implementationPrompt,
+  setupFailuresPrompt,
+} from "./lib/agent/prompt.js";
+import {
+  getBotConfig,
+  getSetupConfig,
+  describeCriteria,
+  getTicketBranchName,
+  resolveRepository,
+  withRepoConfig,
+  type RepositoryTarget,
+  type RoutingCriteria,
+} from "./lib/config/index.js";
+import { installConsoleRedaction } from "./lib/redaction/index.js";
+import {
+  getSessionSandboxName,
+  getWorktreeSandboxName,
+  removeCommandSandbox,
+} from "./lib/sandbox/index.js";
+import { usageLedger } from "./lib/usage/index.js";
 
 function printUsage(): void {
   console.log(`Usage: coding-bot <command> [options]
@@ -33,12 +62,20 @@ async function runServe(args: string[]): Promise<void> {
     }
   }
 
+  // Fail fast on an invalid configuration file
+  getBotConfig();
+  await usageLedger.load();
+
   app.listen(port, () => {
     console.log(`Coding bot server running on port ${port}`);
     console.log(`Health check: http://localhost:${port}/health`);
     if (process.env.TAILSCALE_HOSTNAME) {
       console.log(`Public URL: ${process.env.TAILSCALE_HOSTNAME}`);
     }
+
+    recoverSessions().catch((error) => {
+      console.error("Error recovering sessions:", error);
+    });
   });
 }
 
@@ -49,8 +86,20 @@ async function runPrompt(args: string[]): Promise<void> {
     process.exit(1);
   }
 
+  const { repoBasePath, repoName } = getRepoPaths();
+  const context = createExecutionContext({
+    cwd: process.cwd(),
+    repoBasePath,
+    repoName,
+    sessionId: "cli-prompt",
+  });
+
   const client = new CLIClient();
-  await client.executePrompt(prompt);
+  try {
+    await client.executePrompt(prompt, context);
+  } finally {
+    await removeCommandSandbox(getSessionSandboxName("cli-prompt"));
+  }
 }
 
 function getTicketNumber(args: string[]): string {
@@ -68,9 +117,93 @@ function getTicketNumber(args: string[]): string {
   return ticketId;
 }
 
+/**
+ * Load the routing details and base branch overrides of a ticket from
+ * Linear through LINEAR_API_KEY, as the webhook path does. Without the key,
+ * only the team key in the ticket identifier (e.g. "ENG" for ENG-123) is
+ * known.
+ */
+async function loadTicket(
+  ticketId: string
+): Promise<{ criteria: RoutingCriteria; ticket: BaseBranchTicket }> {
+  const teamKey = ticketId.split("-")[0];
+  const apiKey = process.env.LINEAR_API_KEY;
+  if (!apiKey) {
+    console.warn(
+      "LINEAR_API_KEY is not set - routing by the team key in the ticket identifier only"
+    );
+    return { criteria: { teamKey }, ticket: {} };
+  }
+
+  try {
+    const linearClient = new LinearClient({ apiKey });
+    const issue = await linearClient.issue(ticketId);
+    const [organization, team, project, labels] = await Promise.all([
+      linearClient.organization,
+      issue.team,
+      issue.project,
+      issue.labels(),
+    ]);
+    const labelNames = labels.nodes.map((label) => label.name);
+    return {
+      criteria: {
+        organizationId: organization.id,
+        teamKey: team?.key ?? teamKey,
+        projectName: project?.name,
+        labels: labelNames,
+      },
+      ticket: {
+        labels: labelNames,
+        description: issue.description ?? undefined,
+      },
+    };
+  } catch (error) {
+    console.error(
+      `Error: Failed to load ticket ${ticketId} from Linear: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Resolve the repository for a ticket from the configured routes, with the
+ * base branch the ticket asks for or the configured one, and the
+ * configuration file on it.
+ */
+async function getTicketRepository(
+  ticketId: string
+): Promise<RepositoryTarget> {
+  const { criteria, ticket } = await loadTicket(ticketId);
+  const repository = resolveRepository(criteria);
+  if (!repository) {
+    console.error(
+      `Error: No repository is configured for ticket ${ticketId} (${describeCriteria(
+        criteria
+      )})`
+    );
+    process.exit(1);
+  }
+
+  try {
+    const configured = await withRepoConfig(
+      await resolveBaseBranch(repository, ticket)
+    );
+    console.log(`Base branch: ${describeBaseBranch(configured)}`);
+    return configured;
+  } catch (error) {
+    console.error(
+      `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+    process.exit(1);
+  }
+}
+
 async function runImplement(args: string[]): Promise<void> {
-  const { repoBasePath, repoName } = getRepoPaths();
   const ticketId = getTicketNumber(args);
+  const repository = await getTicketRepository(ticketId);
+  const { repoBasePath, repoName } = repository;
 
   console.log(
     `Setting up worktree for base path: ${repoBasePath}, repo: ${repoName}`
@@ -79,27 +212,57 @@ async function runImplement(args: string[]): Promise<void> {
   const worktree = await createWorktree({
     repoBasePath,
     repoName,
-    branchName: `ticket-${ticketId}`,
-    baseBranch: "main",
+    branchName: getTicketBranchName(repository, ticketId),
+    baseBranch: repository.baseBranch,
   });
 
-  console.log(`Switched to worktree at path: ${worktree.worktreePath}`);
-  process.chdir(worktree.worktreePath);
+  const context = createExecutionContext({
+    cwd: worktree.worktreePath,
+    repoBasePath,
+    repoName,
+    sessionId: `cli-${ticketId}`,
+    repository,
+    worktreePath: worktree.worktreePath,
+  });
 
-  await setupEnvironment({ cwd: worktree.worktreePath });
+  const { onFailure, timeoutMs, outputLimit } = getSetupConfig(repository);
+  const setup = await setupEnvironment({
+    cwd: context.cwd,
+    sandbox: context.sandbox,
+    commands: repository.repoConfig?.commands.setup,
+    timeout: timeoutMs,
+    onStep: (step) => {
+      console.log(`${step.name}: ${formatSetupStep(step, outputLimit)}`);
+    },
+  });
   console.log(`Environment set up at path: ${worktree.worktreePath}`);
 
-  const prompt = implementationPrompt(ticketId);
+  const installFailures = formatSetupFailures(setup, outputLimit, false);
+  const checkFailures = formatSetupFailures(setup, outputLimit, true);
+  if (installFailures && onFailure === "abort") {
+    console.error("Error: Environment setup failed");
+    process.exit(1);
+  }
+
+  const prompt = [
+    implementationPrompt(ticketId),
+    installFailures || checkFailures
+      ? setupFailuresPrompt(installFailures, checkFailures)
+      : null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
   console.log(prompt);
 
   const client = new CLIClient();
-  await client.executePrompt(prompt);
+  await client.executePrompt(prompt, context, repository);
 }
 
 async function runCleanup(args: string[]): Promise<void> {
-  const { repoBasePath, repoName } = getRepoPaths();
   const ticketId = getTicketNumber(args);
-  const branchName = `ticket-${ticketId}`;
+  const repository = await getTicketRepository(ticketId);
+  const { repoBasePath, repoName } = repository;
+  const branchName = getTicketBranchName(repository, ticketId);
 
   console.log(
     `Cleaning up worktree for base path: ${repoBasePath}, repo: ${repoName}, branch: ${branchName}`
@@ -108,6 +271,7 @@ async function runCleanup(args: string[]): Promise<void> {
   // Cleanup worktree
   try {
     await cleanupWorktree(repoBasePath, repoName, branchName);
+    await removeCommandSandbox(getWorktreeSandboxName(repoName, branchName));
     console.log(`Cleaned up worktree for branch: ${branchName}`);
   } catch (error) {
     console.error("Error during cleanup:", error);
@@ -116,6 +280,9 @@ async function runCleanup(args: string[]): Promise<void> {
 }
 
 async function main(): Promise<void> {
+  // Keep secrets out of everything the bot logs
+  installConsoleRedaction();
+
   const args = process.argv.slice(2);
   const command = args[0];
 
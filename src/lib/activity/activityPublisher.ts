@@ -0,0 +1,206 @@
+/**
+ * Activity Publisher sitting between the agent and Linear's agent activity
+ * API. Activities are sent in order per session, bursts of Thoughts are
+ * merged, secrets are redacted, oversized bodies are truncated, and
+ * transient failures are retried with backoff. Publishing never throws: an
+ * activity that cannot be sent is logged and dropped.
+ */
+
+import {
+  LinearClient,
+  LinearDocument as L,
+  LinearError,
+  LinearErrorType,
+  RatelimitedLinearError,
+} from "@linear/sdk";
+import { redact } from "../redaction/index.js";
+import type { Content } from "../types.js";
+
+// Minimum time between two activities of the same session
+const SESSION_INTERVAL_MS = 1000;
+
+// Attempts per activity, including the first
+const MAX_ATTEMPTS = 5;
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// Size limits for activity text
+const MAX_BODY_LENGTH = 10000;
+const MAX_PARAMETER_LENGTH = 2000;
+
+// Linear error types worth retrying
+const TRANSIENT_ERROR_TYPES = new Set<LinearErrorType>([
+  LinearErrorType.Ratelimited,
+  LinearErrorType.NetworkError,
+  LinearErrorType.InternalError,
+  LinearErrorType.LockTimeout,
+  LinearErrorType.Unknown,
+]);
+
+interface PendingActivity {
+  linearClient: LinearClient;
+  content: Content;
+  /** Resolved once the activity has been sent or dropped */
+  done: Array<() => void>;
+}
+
+/**
+ * Keep the start of text up to a limit, noting how much was cut.
+ */
+export function truncateText(text: string, limit: number): string {
+  if (text.length <= limit) {
+    return text;
+  }
+  const truncated = text.length - limit;
+  return `${text.slice(0, limit)}\n\n... (${truncated} characters truncated)`;
+}
+
+/**
+ * Redact secrets from every text field of an activity and apply the size
+ * limits.
+ */
+function sanitizeContent(content: Content): Content {
+  const sanitize = (text: string, limit: number) =>
+    truncateText(redact(text), limit);
+
+  if (content.type === L.AgentActivityType.Action) {
+    return {
+      ...content,
+      action: redact(content.action),
+      parameter:
+        content.parameter === null
+          ? null
+          : sanitize(content.parameter, MAX_PARAMETER_LENGTH),
+      result:
+        content.result === undefined
+          ? undefined
+          : sanitize(content.result, MAX_BODY_LENGTH),
+    };
+  }
+  return { ...content, body: sanitize(content.body, MAX_BODY_LENGTH) };
+}
+
+/**
+ * Check whether a failed request may succeed when retried. Errors from
+ * outside the Linear client, e.g. a dropped connection, are retried too.
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof LinearError) {
+    return error.type !== undefined && TRANSIENT_ERROR_TYPES.has(error.type);
+  }
+  return true;
+}
+
+/**
+ * How long to wait before the next attempt.
+ */
+function backoffDelay(error: unknown, attempt: number): number {
+  if (error instanceof RatelimitedLinearError && error.retryAfter) {
+    return error.retryAfter * 1000;
+  }
+  return Math.min(INITIAL_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Publisher queueing agent activities per Linear session.
+ */
+class ActivityPublisher {
+  private queues: Map<string, PendingActivity[]> = new Map();
+
+  /**
+   * Queue an activity for a session. Resolves once it has been sent or
+   * given up on; never rejects.
+   */
+  publish(
+    linearClient: LinearClient,
+    agentSessionId: string,
+    content: Content
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      const queue = this.queues.get(agentSessionId);
+      if (!queue) {
+        this.queues.set(agentSessionId, [
+          { linearClient, content, done: [resolve] },
+        ]);
+        this.drain(agentSessionId);
+        return;
+      }
+
+      // Merge into a Thought still waiting to be sent
+      const last = queue[queue.length - 1];
+      if (
+        last &&
+        last.content.type === L.AgentActivityType.Thought &&
+        content.type === L.AgentActivityType.Thought
+      ) {
+        const merged = `${last.content.body}\n\n${content.body}`;
+        if (merged.length <= MAX_BODY_LENGTH) {
+          last.content = { ...last.content, body: merged };
+          last.done.push(resolve);
+          return;
+        }
+      }
+
+      queue.push({ linearClient, content, done: [resolve] });
+    });
+  }
+
+  /**
+   * Send the queued activities of a session one by one, spaced out so that
+   * activities arriving in the meantime can be merged.
+   */
+  private async drain(agentSessionId: string): Promise<void> {
+    const queue = this.queues.get(agentSessionId);
+
+    while (queue && queue.length > 0) {
+      const activity = queue.shift()!;
+      await this.send(agentSessionId, activity);
+      activity.done.forEach((resolve) => resolve());
+
+      if (queue.length > 0) {
+        await sleep(SESSION_INTERVAL_MS);
+      }
+    }
+
+    this.queues.delete(agentSessionId);
+  }
+
+  private async send(
+    agentSessionId: string,
+    activity: PendingActivity
+  ): Promise<void> {
+    const content = sanitizeContent(activity.content);
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        await activity.linearClient.createAgentActivity({
+          agentSessionId,
+          content,
+        });
+        return;
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        if (!isTransient(error) || attempt === MAX_ATTEMPTS) {
+          console.error(
+            `Dropping ${content.type} activity for session ${agentSessionId} (attempt ${attempt}): ${message}`
+          );
+          return;
+        }
+
+        const delay = backoffDelay(error, attempt);
+        console.warn(
+          `Failed to publish ${content.type} activity (attempt ${attempt}), retrying in ${delay}ms: ${message}`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const activityPublisher = new ActivityPublisher();
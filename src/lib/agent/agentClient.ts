@@ -1,14 +1,131 @@
-import { LinearClient, LinearDocument as L } from "@linear/sdk";
-import { query, type SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
-import type { Content } from "../types.js";
 import {
+  LinearClient,
+  LinearDocument as L,
+  type WorkflowState,
+} from "@linear/sdk";
+import {
+  AbortError,
+  query,
+  type CanUseTool,
+  type HookCallbackMatcher,
+  type Options,
+  type Query,
+  type SDKResultMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import type {
+  AskUserQuestionInput,
+  ExecutionContext,
+  ImplementationPlan,
+  UsageSummary,
+} from "../types.js";
+import {
+  cleanupWorktree,
+  createExecutionContext,
+  checkPlanConformance,
+  createSnapshot,
   createWorktree,
-  getRepoPaths,
+  describeBaseBranch,
+  extractImplementationPlan,
+  formatConformanceReport,
+  formatPlanSummary,
+  formatSetupFailures,
+  formatSetupStep,
+  formatVerificationFailures,
+  formatVerificationReport,
+  generateAgentPrompt,
+  getChangedFiles,
+  getVerificationCommands,
+  getWorktreeStatus,
+  isSignificantDeviation,
+  parseImplementationPlan,
+  publishPullRequest,
+  resolveBaseBranch,
+  runVerification,
   setupEnvironment,
+  splitImplementationPlan,
+  type BaseBranchTicket,
+  type WorktreeResult,
 } from "../workflow/index.js";
-import { implementationPrompt, questionPrompt } from "./prompt.js";
+import {
+  followUpPrompt,
+  implementationPrompt,
+  questionPrompt,
+  setupFailuresPrompt,
+  userAnswerPrompt,
+  verificationFailedPrompt,
+} from "./prompt.js";
+import { formatToolUse } from "./toolFormatters.js";
+import {
+  createPermissionPolicy,
+  type PermissionPolicy,
+} from "../permissions/index.js";
+import { extractToolResults, summarizeToolResult } from "./toolResults.js";
 import type { AgentSessionEventWebhookPayload } from "@linear/sdk/webhooks";
-import type { InteractionType } from "../session/sessionRegistry.js";
+import path from "path";
+import {
+  describeCriteria,
+  getBotConfig,
+  getGuardrailLimits,
+  getRepositoryVerifyCommands,
+  getSetupConfig,
+  getTicketBranchName,
+  getWorkflowStates,
+  resolveRepository,
+  withRepoConfig,
+  type GuardrailLimits,
+  type RepositoryTarget,
+  type RoutingCriteria,
+  type WorkflowTransition,
+} from "../config/index.js";
+import {
+  checkSessionBudget,
+  formatUsage,
+  getRemainingSessionBudget,
+  updateUsage,
+  usageLedger,
+} from "../usage/index.js";
+import { activityPublisher } from "../activity/index.js";
+import {
+  getAgentEnv,
+  getSessionSandboxName,
+  getWorktreeSandboxName,
+  removeCommandSandbox,
+} from "../sandbox/index.js";
+import {
+  conversationStore,
+  createInputChannel,
+  createUserMessage,
+  sessionRegistry,
+  startWatchdog,
+  type ConversationRecord,
+  type InputChannel,
+  type InteractionType,
+} from "../session/index.js";
+
+// Tools available when answering questions about the codebase
+const QUESTION_TOOLS = ["Read", "Grep", "Glob", "Bash"];
+
+// Tools still running after this long are shown as an Action in progress
+const LONG_RUNNING_TOOL_MS = 15 * 1000;
+
+/**
+ * The result of checking an implementation against its ticket's plan.
+ */
+interface ConformanceReview {
+  summary: string;
+  /** Whether the deviation keeps the pull request from being opened */
+  blocked: boolean;
+}
+
+/**
+ * The checkout a question session runs in, with its read-only policy.
+ */
+interface QuestionCheckout {
+  context: ExecutionContext;
+  permissions: PermissionPolicy;
+  /** Remove the snapshot once the run is done */
+  release: () => Promise<void>;
+}
 
 /**
  * Simplified comment interface for previous comments context.
@@ -23,8 +140,58 @@ export interface PreviousComment {
  */
 export interface AgentCallbacks {
   onText: (text: string) => Promise<void> | void;
-  onToolUse: (toolName: string, input: unknown) => Promise<void> | void;
-  onSystemInit: (tools: string[], agents?: string[]) => Promise<void> | void;
+  /** Called when the agent calls a tool, before it runs */
+  onToolStart?: (
+    toolName: string,
+    input: unknown,
+    toolUseId: string
+  ) => Promise<void> | void;
+  /** Called once a tool's result is known, with a short summary of it */
+  onToolUse: (
+    toolName: string,
+    input: unknown,
+    result: string | undefined,
+    toolUseId: string
+  ) => Promise<void> | void;
+  onSystemInit: (
+    tools: string[],
+    agents?: string[],
+    sessionId?: string
+  ) => Promise<void> | void;
+  /** Called when the agent asks the user a question (streaming mode only) */
+  onAskUserQuestion?: (
+    toolUseId: string,
+    input: AskUserQuestionInput
+  ) => Promise<void> | void;
+  /** Called for each agent message with the number of turns taken so far */
+  onProgress?: (turns: number) => void;
+  /** Called after each turn with the usage of the run so far */
+  onUsage?: (usage: UsageSummary) => Promise<void> | void;
+  /**
+   * Called when a turn ends successfully with no question outstanding
+   * (streaming mode only). Returning a prompt continues the conversation.
+   */
+  onTurnComplete?: () => Promise<string | null> | string | null;
+}
+
+/**
+ * Verification of an implementation across the agent's turns.
+ */
+interface VerificationRun {
+  /** Runs the commands after a turn; returns a prompt to fix failures */
+  onTurnComplete: () => Promise<string | null>;
+  attempts: number;
+  /** Report of the last attempt; unset when nothing was verified */
+  report?: string;
+  passed?: boolean;
+}
+
+/**
+ * Per-session handles for controlling a running agent.
+ */
+interface SessionControls {
+  abortController: AbortController;
+  inputChannel: InputChannel;
 }
 
 /**
@@ -34,6 +201,128 @@ export interface ExecutePromptResult {
   success: boolean;
   result?: string;
   errors?: string[];
+  /** True when the run was stopped through its abort controller */
+  aborted?: boolean;
+  /** SDK session id, used to resume the conversation later */
+  sessionId?: string;
+  /** Tokens, cost, turns and duration of the run */
+  usage?: UsageSummary;
+}
+
+/**
+ * Options for executing a prompt.
+ */
+export interface ExecutePromptOptions {
+  /** Working directory, environment and repo paths for the session */
+  context: ExecutionContext;
+  /** Restrict the agent to these tools (defaults to the claude_code preset) */
+  tools?: string[];
+  /** Controller used to stop the agent mid-execution */
+  abortController?: AbortController;
+  /** SDK session id of a previous conversation to resume */
+  resume?: string;
+  /** Stop the agent once the run has cost this many US dollars */
+  maxBudgetUsd?: number;
+  /** Policy deciding which tool calls are allowed; all are when unset */
+  permissions?: PermissionPolicy;
+  /** Extra instructions appended to the system prompt */
+  instructions?: string;
+}
+
+// The policy is enforced in the PreToolUse hook, which permission rules from
+// settings files cannot skip, so tool calls reaching canUseTool have passed
+const allowTool: CanUseTool = async (_toolName, input) => ({
+  behavior: "allow",
+  updatedInput: input,
+});
+
+/**
+ * Build the hook enforcing a run's permission policy on every tool call and
+ * running the agent's Bash commands in the session's command sandbox. Bash
+ * calls are checked while the command is still unwrapped. Denials are
+ * recorded by tool use id so their results can be reported as denials.
+ */
+function createPolicyHook(
+  options: ExecutePromptOptions,
+  deniedToolUses: Map<string, string>
+): HookCallbackMatcher {
+  const { context, permissions } = options;
+  return {
+    hooks: [
+      async (input) => {
+        if (input.hook_event_name !== "PreToolUse") {
+          return {};
+        }
+
+        const toolInput = input.tool_input as Record<string, unknown>;
+        const reason = permissions?.check(input.tool_name, toolInput);
+        if (reason) {
+          console.warn(`Denied ${input.tool_name}: ${reason}`);
+          deniedToolUses.set(input.tool_use_id, reason);
+          return {
+            hookSpecificOutput: {
+              hookEventName: "PreToolUse",
+              permissionDecision: "deny",
+              permissionDecisionReason: `Permission denied: ${reason}`,
+            },
+          };
+        }
+        if (input.tool_name !== "Bash") {
+          return {};
+        }
+
+        return {
+          hookSpecificOutput: {
+            hookEventName: "PreToolUse",
+            permissionDecision: "allow",
+            updatedInput: {
+              ...toolInput,
+              command: context.sandbox.wrap(String(toolInput.command ?? "")),
+            },
+          },
+        };
+      },
+    ],
+  };
+}
+
+/**
+ * Build the SDK query options shared by single-shot and streaming execution.
+ * Every tool call goes through the policy hook first.
+ */
+function buildQueryOptions(
+  options: ExecutePromptOptions,
+  canUseTool: CanUseTool,
+  deniedToolUses: Map<string, string>
+): Options {
+  const {
+    context,
+    tools,
+    abortController,
+    resume,
+    maxBudgetUsd,
+    instructions,
+  } = options;
+  return {
+    cwd: context.cwd,
+    // Keeps the bot's secrets from hooks and MCP servers of the repository's
+    // settings; Bash commands additionally run in the sandbox
+    env: getAgentEnv(context.sandbox),
+    abortController,
+    resume,
+    maxBudgetUsd,
+    systemPrompt: {
+      type: "preset",
+      preset: "claude_code",
+      append: instructions,
+    },
+    permissionMode: "default",
+    canUseTool,
+    hooks: { PreToolUse: [createPolicyHook(options, deniedToolUses)] },
+    settingSources: ["project", "user"],
+    tools: tools ? tools : { type: "preset", preset: "claude_code" },
+    includePartialMessages: false,
+  };
 }
 
 /**
@@ -42,89 +331,321 @@ export interface ExecutePromptResult {
 export async function executePrompt(
   userPrompt: string,
   callbacks: AgentCallbacks,
-  tools?: string[]
+  options: ExecutePromptOptions
 ): Promise<ExecutePromptResult> {
-  const cwd = process.cwd();
-  console.log(`Executing prompt in directory: ${cwd}`);
+  console.log(`Executing prompt in directory: ${options.context.cwd}`);
 
+  const deniedToolUses = new Map<string, string>();
   const agentQuery = query({
     prompt: userPrompt,
-    options: {
-      cwd,
-      systemPrompt: { type: "preset", preset: "claude_code" },
-      permissionMode: "bypassPermissions",
-      allowDangerouslySkipPermissions: true,
-      settingSources: ["project", "user"],
-      tools: tools ? tools : { type: "preset", preset: "claude_code" },
-      includePartialMessages: false,
-    },
+    options: buildQueryOptions(options, allowTool, deniedToolUses),
   });
 
-  let lastResult: SDKResultMessage | null = null;
+  return consumeQuery(
+    agentQuery,
+    callbacks,
+    deniedToolUses,
+    options.abortController
+  );
+}
 
-  for await (const message of agentQuery) {
-    switch (message.type) {
-      case "assistant": {
-        type ContentBlock = {
-          type: string;
-          text?: string;
-          name?: string;
-          input?: unknown;
-        };
-        const content = message.message.content as ContentBlock[];
+/**
+ * Execute a streaming prompt fed by an input channel. The query stays alive
+ * while the agent waits for an answer to an AskUserQuestion call, and the
+ * channel is closed once a turn finishes with no question outstanding.
+ */
+export async function executeStreamingPrompt(
+  inputChannel: InputChannel,
+  callbacks: AgentCallbacks,
+  options: ExecutePromptOptions
+): Promise<ExecutePromptResult> {
+  console.log(
+    `Executing streaming prompt in directory: ${options.context.cwd}`
+  );
 
-        // Handle text content
-        const textContent = content
-          .filter(
-            (block): block is ContentBlock & { type: "text"; text: string } =>
-              block.type === "text" && typeof block.text === "string"
-          )
-          .map((block) => block.text)
-          .join("\n");
+  const deniedToolUses = new Map<string, string>();
 
-        if (textContent) {
-          await callbacks.onText(textContent);
-        }
+  // The question is relayed to Linear as an elicitation, so tell the agent
+  // to end its turn instead of answering the tool call locally
+  const canUseTool: CanUseTool = async (toolName, input, toolOptions) => {
+    if (toolName === "AskUserQuestion") {
+      return {
+        behavior: "deny",
+        message:
+          "Your question has been posted to the user. End your turn now; their answer will arrive as the next user message.",
+      };
+    }
+    return allowTool(toolName, input, toolOptions);
+  };
 
-        // Handle tool uses
-        const toolUses = content.filter(
-          (
-            block
-          ): block is ContentBlock & {
-            type: "tool_use";
-            name: string;
-            input: unknown;
-          } => block.type === "tool_use" && typeof block.name === "string"
-        );
+  const agentQuery = query({
+    prompt: inputChannel.getIterable(),
+    options: buildQueryOptions(options, canUseTool, deniedToolUses),
+  });
 
-        for (const toolUse of toolUses) {
-          await callbacks.onToolUse(toolUse.name, toolUse.input);
+  let awaitingAnswer = false;
+  return consumeQuery(
+    agentQuery,
+    {
+      ...callbacks,
+      onAskUserQuestion: async (toolUseId, input) => {
+        awaitingAnswer = true;
+        await callbacks.onAskUserQuestion?.(toolUseId, input);
+      },
+    },
+    deniedToolUses,
+    options.abortController,
+    async (result) => {
+      if (awaitingAnswer) {
+        awaitingAnswer = false;
+        return;
+      }
+
+      if (result.subtype === "success" && !result.is_error) {
+        const nextPrompt = await callbacks.onTurnComplete?.();
+        if (nextPrompt && inputChannel.push(createUserMessage(nextPrompt))) {
+          return;
         }
-        break;
       }
+      inputChannel.close();
+    }
+  );
+}
+
+/**
+ * Consume SDK messages, dispatching them to the callbacks, until the query ends.
+ */
+async function consumeQuery(
+  agentQuery: Query,
+  callbacks: AgentCallbacks,
+  deniedToolUses: Map<string, string>,
+  abortController?: AbortController,
+  onResult?: (result: SDKResultMessage) => Promise<void> | void
+): Promise<ExecutePromptResult> {
+  let lastResult: SDKResultMessage | null = null;
+  let sessionId: string | undefined;
+  let usage: UsageSummary | undefined;
+  // A turn is one model response, which may arrive as several messages
+  const turnIds = new Set<string>();
+  // Tool uses are reported as they start and once their result arrives
+  const pendingToolUses = new Map<string, { name: string; input: unknown }>();
+
+  try {
+    for await (const message of agentQuery) {
+      if ("session_id" in message && message.session_id) {
+        sessionId = message.session_id;
+      }
+
+      switch (message.type) {
+        case "assistant": {
+          turnIds.add(message.message.id);
+          callbacks.onProgress?.(turnIds.size);
 
-      case "result":
-        lastResult = message;
-        break;
+          type ContentBlock = {
+            type: string;
+            id?: string;
+            text?: string;
+            name?: string;
+            input?: unknown;
+          };
+          const content = message.message.content as ContentBlock[];
 
-      case "system":
-        if (message.subtype === "init") {
-          await callbacks.onSystemInit(message.tools, message.agents);
+          // Handle text content
+          const textContent = content
+            .filter(
+              (
+                block
+              ): block is ContentBlock & { type: "text"; text: string } =>
+                block.type === "text" && typeof block.text === "string"
+            )
+            .map((block) => block.text)
+            .join("\n");
+
+          if (textContent) {
+            await callbacks.onText(textContent);
+          }
+
+          // Handle tool uses
+          const toolUses = content.filter(
+            (
+              block
+            ): block is ContentBlock & {
+              type: "tool_use";
+              id: string;
+              name: string;
+              input: unknown;
+            } => block.type === "tool_use" && typeof block.name === "string"
+          );
+
+          for (const toolUse of toolUses) {
+            if (
+              toolUse.name === "AskUserQuestion" &&
+              callbacks.onAskUserQuestion
+            ) {
+              await callbacks.onAskUserQuestion(
+                toolUse.id,
+                toolUse.input as AskUserQuestionInput
+              );
+            } else {
+              pendingToolUses.set(toolUse.id, {
+                name: toolUse.name,
+                input: toolUse.input,
+              });
+              await callbacks.onToolStart?.(
+                toolUse.name,
+                toolUse.input,
+                toolUse.id
+              );
+            }
+          }
+          break;
+        }
+
+        case "user": {
+          callbacks.onProgress?.(turnIds.size);
+          const results = extractToolResults(
+            message.message.content,
+            message.tool_use_result
+          );
+          for (const [toolUseId, result] of results) {
+            const toolUse = pendingToolUses.get(toolUseId);
+            if (toolUse) {
+              pendingToolUses.delete(toolUseId);
+              const denial = deniedToolUses.get(toolUseId);
+              await callbacks.onToolUse(
+                toolUse.name,
+                toolUse.input,
+                denial
+                  ? `Denied: ${denial}`
+                  : summarizeToolResult(toolUse.name, result),
+                toolUseId
+              );
+            }
+          }
+          break;
         }
-        break;
+
+        case "result":
+          lastResult = message;
+          usage = updateUsage(usage, message);
+          await callbacks.onUsage?.(usage);
+          await onResult?.(message);
+          break;
+
+        case "system":
+          if (message.subtype === "init") {
+            await callbacks.onSystemInit(
+              message.tools,
+              message.agents,
+              message.session_id
+            );
+          }
+          break;
+      }
+    }
+  } catch (error) {
+    if (error instanceof AbortError || abortController?.signal.aborted) {
+      return {
+        success: false,
+        aborted: true,
+        errors: ["Execution stopped"],
+        sessionId,
+        usage,
+      };
     }
+    throw error;
+  } finally {
+    // Tool uses cut short by the end of the query are reported as such, so
+    // their actions do not stay in progress
+    for (const [toolUseId, { name, input }] of pendingToolUses) {
+      await callbacks.onToolUse(name, input, "Interrupted", toolUseId);
+    }
+  }
+
+  if (abortController?.signal.aborted) {
+    return {
+      success: false,
+      aborted: true,
+      errors: ["Execution stopped"],
+      sessionId,
+      usage,
+    };
   }
 
   if (!lastResult) {
-    return { success: false, errors: ["No result received from agent"] };
+    return {
+      success: false,
+      errors: ["No result received from agent"],
+      sessionId,
+    };
   }
 
   if (lastResult.subtype === "success") {
-    return { success: true, result: lastResult.result };
+    return { success: true, result: lastResult.result, sessionId, usage };
+  } else if (lastResult.subtype === "error_max_budget_usd") {
+    return {
+      success: false,
+      errors: ["The run reached its budget and was stopped"],
+      sessionId,
+      usage,
+    };
   } else {
     const errors =
       "errors" in lastResult ? lastResult.errors : ["Unknown error"];
-    return { success: false, errors };
+    return { success: false, errors, sessionId, usage };
+  }
+}
+
+/**
+ * Format AskUserQuestion input as a Markdown elicitation body.
+ */
+function formatQuestions(input: AskUserQuestionInput): string {
+  return input.questions
+    .map((q) => {
+      const options = q.options
+        .map(
+          (option) =>
+            `- **${option.label}**${option.description ? `: ${option.description}` : ""}`
+        )
+        .join("\n");
+      const hint = q.multiSelect
+        ? "\n\nYou can pick more than one option."
+        : "";
+      return `**${q.header}**\n${q.question}\n\n${options}${hint}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Append the usage of a run to a Linear response.
+ */
+function withUsage(body: string, usage?: UsageSummary): string {
+  return usage ? `${body}\n\n${formatUsage(usage)}` : body;
+}
+
+/**
+ * Pick a workflow state by type when no state name is configured for a
+ * transition. "In review" is taken to be the last started state, after
+ * "In Progress"; a failed ticket goes back to the first unstarted state.
+ */
+function findStateByType(
+  states: WorkflowState[],
+  transition: WorkflowTransition
+): WorkflowState | undefined {
+  const ofType = (type: string) =>
+    states
+      .filter((state) => state.type === type)
+      .sort((a, b) => a.position - b.position);
+
+  switch (transition) {
+    case "started":
+      return ofType("started")[0];
+    case "inReview": {
+      const started = ofType("started");
+      return started.length > 1 ? started[started.length - 1] : undefined;
+    }
+    case "failed":
+      return ofType("unstarted")[0];
   }
 }
 
@@ -146,204 +667,1405 @@ export class AgentClient {
   public async handleUserPrompt(
     agentSession: AgentSessionEventWebhookPayload["agentSession"],
     interactionType: InteractionType,
+    repository: RepositoryTarget,
     previousComments?: PreviousComment[]
   ): Promise<void> {
     const ticketId = agentSession.issue?.identifier || undefined;
+    const controls = this.getSessionControls(agentSession.id);
+
+    // The configuration file is read from the resolved base branch
+    const resolved = await this.resolveBaseBranch(
+      agentSession.id,
+      ticketId,
+      repository
+    );
+    if (!resolved) {
+      return;
+    }
+    const configured = await this.loadRepoConfig(agentSession.id, resolved);
+    if (!configured) {
+      return;
+    }
+    repository = configured;
+
     if (interactionType === "question") {
-      await this.handleQuestion(agentSession, previousComments, ticketId);
+      await this.handleQuestion(
+        agentSession,
+        repository,
+        controls,
+        previousComments,
+        ticketId
+      );
     } else if (ticketId) {
-      await this.handleIssueAssignment(agentSession, ticketId);
+      await this.handleIssueAssignment(
+        agentSession,
+        ticketId,
+        repository,
+        controls
+      );
     } else {
       console.error("No ticket ID found for issue assignment");
     }
   }
 
   /**
-   * Handle an issue assignment - create worktree, setup environment, and implement.
+   * Resume the stored conversation for a session with a follow-up prompt.
+   * Implementation sessions continue in the same ticket worktree.
    */
-  private async handleIssueAssignment(
-    agentSession: AgentSessionEventWebhookPayload["agentSession"],
-    ticketId: string
+  public async handleFollowUp(
+    agentSessionId: string,
+    conversation: ConversationRecord,
+    message: string,
+    repository: RepositoryTarget
   ): Promise<void> {
-    try {
-      console.log(`Processing ticket: ${ticketId}...`);
-      const { repoBasePath, repoName } = getRepoPaths();
+    const controls = this.getSessionControls(agentSessionId);
+    const isImplementation =
+      conversation.interactionType === "issue_assignment";
+    let questionCheckout: QuestionCheckout | undefined;
 
-      await this.createThought(
-        agentSession.id,
-        "Analyzing the implementation plan and preparing to execute..."
+    // Conversations keep the base branch they started on
+    if (repository.baseBranchSource === "default") {
+      const resolved = await this.resolveBaseBranch(
+        agentSessionId,
+        undefined,
+        repository
       );
+      if (!resolved) {
+        return;
+      }
+      repository = resolved;
+    }
+    const configured = await this.loadRepoConfig(agentSessionId, repository);
+    if (!configured) {
+      return;
+    }
+    repository = configured;
 
+    try {
       console.log(
-        `Setting up worktree for base path: ${repoBasePath}, repo: ${repoName}`
+        `Resuming conversation ${conversation.sdkSessionId} for session: ${agentSessionId}`
       );
 
-      const worktree = await createWorktree({
-        repoBasePath,
-        repoName,
-        branchName: `ticket-${ticketId}`,
-        baseBranch: "main",
-      });
+      await this.createThought(
+        agentSessionId,
+        "Picking up where we left off..."
+      );
 
-      console.log(`Switched to worktree at path: ${worktree.worktreePath}`);
-      process.chdir(worktree.worktreePath);
+      const { repoBasePath, repoName } = repository;
+      let worktreePath: string | undefined;
+      let context: ExecutionContext;
 
-      await setupEnvironment({ cwd: worktree.worktreePath });
-      console.log(`Environment set up at path: ${worktree.worktreePath}`);
+      if (isImplementation) {
+        await this.setTicketStatus(conversation.ticketId, "started");
 
-      const userPrompt = implementationPrompt(ticketId);
-      console.log(userPrompt);
+        // Recreates the worktree from the ticket branch if it was removed
+        const worktree = await createWorktree({
+          repoBasePath,
+          repoName,
+          branchName: getTicketBranchName(repository, conversation.ticketId),
+          baseBranch: repository.baseBranch,
+        });
+        worktreePath = worktree.worktreePath;
+        sessionRegistry.setWorktreePath(agentSessionId, worktreePath);
 
-      const result = await executePrompt(userPrompt, {
-        onText: async (text) => {
-          await this.createThought(agentSession.id, text);
-        },
-        onToolUse: async (toolName, input) => {
-          await this.createAction(
-            agentSession.id,
-            toolName,
-            JSON.stringify(input, null, 2)
-          );
-        },
-        onSystemInit: (tools, agents) => {
-          console.log(
-            `Claude Agent initialized with tools: ${tools
-              .filter((tool) => tool.indexOf("mcp_") === -1)
-              .join(", ")}`
-          );
-          if (agents) {
-            console.log(`Claude Agent initialized with agents: ${agents.join(", ")}`);
-          }
+        context = createExecutionContext({
+          cwd: worktreePath,
+          repoBasePath,
+          repoName,
+          sessionId: agentSessionId,
+          repository,
+          worktreePath,
+        });
+      } else {
+        questionCheckout = await this.checkoutForQuestion(
+          agentSessionId,
+          repository
+        );
+        context = questionCheckout.context;
+      }
+      console.log(`Running follow-up in: ${context.cwd}`);
+
+      controls.inputChannel.start(createUserMessage(followUpPrompt(message)));
+
+      // Implementation follow-ups are verified like the initial run
+      const verification = isImplementation
+        ? await this.createVerificationRun(
+            agentSessionId,
+            context,
+            repository,
+            await extractImplementationPlan(
+              this.linearClient,
+              conversation.ticketId
+            )
+          )
+        : undefined;
+
+      const result = await this.runAgent(
+        agentSessionId,
+        conversation.ticketId,
+        repository,
+        controls.inputChannel,
+        {
+          ...this.createCallbacks(agentSessionId, context),
+          onTurnComplete: verification?.onTurnComplete,
         },
-      });
+        {
+          context,
+          tools: isImplementation ? undefined : QUESTION_TOOLS,
+          abortController: controls.abortController,
+          resume: conversation.sdkSessionId,
+          permissions: questionCheckout?.permissions,
+        }
+      );
 
-      if (result.success) {
-        await this.createResponse(
-          agentSession.id,
-          `Implementation complete!\n\n${result.result}`
+      this.saveConversation(
+        agentSessionId,
+        { ...conversation, repository },
+        result
+      );
+      this.recordUsage(
+        agentSessionId,
+        conversation.ticketId,
+        "follow_up",
+        result
+      );
+
+      // The worktree is kept on stop: it holds the work of earlier runs
+      if (result.aborted) {
+        await this.acknowledgeStop(
+          agentSessionId,
+          sessionRegistry.get(agentSessionId)?.abortReason
         );
+        if (isImplementation) {
+          await this.setTicketStatus(conversation.ticketId, "failed");
+        }
+      } else if (result.success) {
+        const response =
+          result.result || "Done - see the activity above for details.";
+        if (worktreePath && verification) {
+          await this.completeImplementation(
+            agentSessionId,
+            conversation.ticketId,
+            worktreePath,
+            repository,
+            verification,
+            response,
+            result.usage
+          );
+        } else {
+          await this.createResponse(
+            agentSessionId,
+            withUsage(response, result.usage)
+          );
+        }
       } else {
         await this.createError(
-          agentSession.id,
-          `Implementation encountered issues:\n${result.errors?.join("\n")}`
+          agentSessionId,
+          `Follow-up encountered issues:\n${result.errors?.join("\n")}`
         );
+        if (isImplementation) {
+          await this.setTicketStatus(conversation.ticketId, "failed");
+        }
       }
     } catch (error) {
       const errorMessage = `Agent error: ${
         error instanceof Error ? error.message : "Unknown error"
       }`;
       console.error(errorMessage, error);
-      await this.createError(agentSession.id, errorMessage);
+      await this.createError(agentSessionId, errorMessage);
+      if (isImplementation) {
+        await this.setTicketStatus(conversation.ticketId, "failed");
+      }
+    } finally {
+      await questionCheckout?.release();
     }
   }
 
   /**
-   * Handle a question in a comment thread - answer without creating a worktree.
+   * Route a user's message to a running session. Answers to a pending
+   * question resume the agent; other messages are queued as follow-ups.
    */
-  private async handleQuestion(
-    agentSession: AgentSessionEventWebhookPayload["agentSession"],
-    previousComments?: PreviousComment[],
-    ticketId?: string
+  public async handleUserResponse(
+    agentSessionId: string,
+    message: string
   ): Promise<void> {
-    try {
-      console.log(`Handling question for ticket: ${ticketId}`);
+    const session = sessionRegistry.get(agentSessionId);
+    if (!session) {
+      console.warn(`No running session found: ${agentSessionId}`);
+      return;
+    }
 
+    const pendingQuestion = session.pendingQuestion;
+    let prompt = followUpPrompt(message);
+    if (pendingQuestion) {
+      clearTimeout(session.timeoutHandle);
+      session.timeoutHandle = undefined;
+      session.pendingQuestion = undefined;
+      sessionRegistry.setState(agentSessionId, "running");
+
+      const questions = pendingQuestion.input.questions.map((q) => q.question);
+      prompt = userAnswerPrompt(questions, message);
+    }
+
+    const delivered = session.inputChannel.push(createUserMessage(prompt));
+    if (!delivered) {
+      console.warn(`Input channel closed for session: ${agentSessionId}`);
       await this.createThought(
-        agentSession.id,
-        "Analyzing your question and searching the codebase..."
+        agentSessionId,
+        "I'm wrapping up the current run - please send your message again once it has finished."
       );
+      return;
+    }
 
-      // Extract the question from the comment
-      const question = agentSession.comment?.body || "";
-      if (!question) {
-        console.error("No question found in comment");
-        await this.createError(agentSession.id, "No question found in comment");
-        return;
-      }
+    await this.createThought(
+      agentSessionId,
+      session.state === "queued"
+        ? "Got it, I'll read this once I start."
+        : "Got it, continuing..."
+    );
+  }
 
-      // Build context from previous comments
-      const previousContext =
-        previousComments?.map((c) => `Comment: ${c.body}`).join("\n\n") || "";
+  /**
+   * Tell the user that a restart interrupted their session, and whether it
+   * is being resumed.
+   */
+  public async reportRestart(
+    agentSessionId: string,
+    resuming: boolean
+  ): Promise<void> {
+    if (resuming) {
+      await this.createThought(
+        agentSessionId,
+        "The coding bot restarted while working on this session. Resuming from the saved conversation..."
+      );
+    } else {
+      await this.createError(
+        agentSessionId,
+        "The coding bot restarted and this session was interrupted before it could be resumed. Please start a new session to try again."
+      );
+    }
+  }
 
-      // Set CWD to main repo for read-only access
-      const { repoBasePath, repoName } = getRepoPaths();
-      const mainRepoPath = `${repoBasePath}/${repoName}`;
-      process.chdir(mainRepoPath);
-      console.log(`Set working directory to main repo: ${mainRepoPath}`);
+  /**
+   * Resolve the repository to work on for a ticket from the configured
+   * routes. Posts an error to the session when no route matches.
+   */
+  public async resolveRepository(
+    agentSessionId: string,
+    organizationId: string,
+    issueId?: string
+  ): Promise<RepositoryTarget | null> {
+    const criteria: RoutingCriteria = { organizationId };
 
-      const userPrompt = questionPrompt(question, previousContext, ticketId);
-      console.log(userPrompt);
+    if (issueId) {
+      try {
+        const issue = await this.linearClient.issue(issueId);
+        const [team, project, labels] = await Promise.all([
+          issue.team,
+          issue.project,
+          issue.labels(),
+        ]);
+        criteria.teamKey = team?.key;
+        criteria.projectName = project?.name;
+        criteria.labels = labels.nodes.map((label) => label.name);
+      } catch (error) {
+        console.error(
+          `Failed to load routing details for issue ${issueId}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
 
-      const result = await executePrompt(
-        userPrompt,
-        {
-          onText: async (text) => {
-            await this.createThought(agentSession.id, text);
-          },
-          onToolUse: async (toolName, input) => {
-            await this.createAction(
-              agentSession.id,
-              toolName,
-              JSON.stringify(input, null, 2)
-            );
-          },
-          onSystemInit: (tools) => {
-            console.log(
-              `Claude Agent initialized with tools: ${tools
-                .filter((tool) => tool.indexOf("mcp_") === -1)
-                .join(", ")}`
-            );
-          },
-        },
-        ["Read", "Grep", "Glob", "Bash"] // Limit tools for read-only question answering
+    const repository = resolveRepository(criteria);
+    if (!repository) {
+      console.warn(`No repository route matches session: ${agentSessionId}`);
+      await this.createError(
+        agentSessionId,
+        `No repository is configured for this ticket (${describeCriteria(
+          criteria
+        )}). Add a matching entry to \`repositories\` in the coding bot configuration.`
       );
+      return null;
+    }
 
-      if (result.success) {
-        await this.createResponse(
-          agentSession.id,
-          result.result ||
-            "I've analyzed the codebase and provided my answer above."
-        );
-      } else {
-        await this.createError(
-          agentSession.id,
-          `Error answering question:\n${result.errors?.join("\n")}`
-        );
-      }
+    console.log(`Routing session ${agentSessionId} to ${repository.name}`);
+    return repository;
+  }
+
+  /**
+   * Get the priority of a Linear issue (0 = none, 1 = urgent ... 4 = low).
+   */
+  public async getIssuePriority(issueId: string): Promise<number> {
+    try {
+      const issue = await this.linearClient.issue(issueId);
+      return issue.priority;
     } catch (error) {
-      const errorMessage = `Agent error: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`;
-      console.error(errorMessage, error);
-      await this.createError(agentSession.id, errorMessage);
+      console.error(
+        `Failed to get issue priority: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return 0;
     }
   }
 
-  private async createThought(
+  /**
+   * Tell the user where their session stands in the job queue.
+   */
+  public async reportQueuePosition(
     agentSessionId: string,
-    body: string
+    ahead: number
   ): Promise<void> {
-    await this.linearClient.createAgentActivity({
+    await this.createThought(
       agentSessionId,
-      content: {
-        type: L.AgentActivityType.Thought,
-        body,
-      } as Content,
-    });
+      ahead === 0
+        ? "Queued - you're next in line."
+        : `Queued - ${ahead} ${ahead === 1 ? "job" : "jobs"} ahead of you.`
+    );
   }
 
-  private async createAction(
+  /**
+   * Tell the user their session was refused because a budget was reached.
+   */
+  public async reportBudgetExceeded(
     agentSessionId: string,
-    action: string,
-    parameter: string
+    reason: string
+  ): Promise<void> {
+    await this.createError(agentSessionId, reason);
+  }
+
+  /**
+   * Acknowledge a stop signal for a session that has no running agent.
+   */
+  public async acknowledgeStop(
+    agentSessionId: string,
+    reason?: string
+  ): Promise<void> {
+    if (reason) {
+      await this.createError(agentSessionId, reason);
+    } else {
+      await this.createResponse(
+        agentSessionId,
+        "Execution stopped as requested."
+      );
+    }
+  }
+
+  /**
+   * Handle an issue assignment - create worktree, setup environment, and implement.
+   */
+  private async handleIssueAssignment(
+    agentSession: AgentSessionEventWebhookPayload["agentSession"],
+    ticketId: string,
+    repository: RepositoryTarget,
+    controls: SessionControls
+  ): Promise<void> {
+    const { abortController, inputChannel } = controls;
+    try {
+      console.log(`Processing ticket: ${ticketId}...`);
+      const { repoBasePath, repoName } = repository;
+
+      // A stop signal may arrive while the base branch and config are read
+      if (abortController.signal.aborted) {
+        await this.acknowledgeStop(
+          agentSession.id,
+          sessionRegistry.get(agentSession.id)?.abortReason
+        );
+        return;
+      }
+
+      await this.createThought(
+        agentSession.id,
+        `Analyzing the implementation plan and preparing to execute...\n\nBase branch: ${describeBaseBranch(repository)}`
+      );
+      await this.setTicketStatus(ticketId, "started");
+
+      console.log(
+        `Setting up worktree for base path: ${repoBasePath}, repo: ${repoName}`
+      );
+
+      const worktree = await createWorktree({
+        repoBasePath,
+        repoName,
+        branchName: getTicketBranchName(repository, ticketId),
+        baseBranch: repository.baseBranch,
+      });
+
+      sessionRegistry.setWorktreePath(agentSession.id, worktree.worktreePath);
+
+      const context = createExecutionContext({
+        cwd: worktree.worktreePath,
+        repoBasePath,
+        repoName,
+        sessionId: agentSession.id,
+        repository,
+        worktreePath: worktree.worktreePath,
+      });
+
+      if (abortController.signal.aborted) {
+        await this.handleStopped(
+          agentSession.id,
+          ticketId,
+          context,
+          worktree
+        );
+        return;
+      }
+
+      const setup = await this.setUpEnvironment(
+        agentSession.id,
+        context,
+        repository
+      );
+      console.log(`Environment set up at path: ${worktree.worktreePath}`);
+
+      // A stop signal may arrive while the environment is being set up
+      if (abortController.signal.aborted) {
+        await this.handleStopped(
+          agentSession.id,
+          ticketId,
+          context,
+          worktree
+        );
+        return;
+      }
+      if (setup.aborted) {
+        await this.setTicketStatus(ticketId, "failed");
+        return;
+      }
+
+      const { prompt: implementation, plan } =
+        await this.buildImplementationPrompt(agentSession.id, ticketId);
+      const userPrompt = [implementation, setup.prompt]
+        .filter(Boolean)
+        .join("\n\n");
+      console.log(userPrompt);
+      inputChannel.start(createUserMessage(userPrompt));
+
+      const verification = await this.createVerificationRun(
+        agentSession.id,
+        context,
+        repository,
+        plan
+      );
+      const result = await this.runAgent(
+        agentSession.id,
+        ticketId,
+        repository,
+        inputChannel,
+        {
+          ...this.createCallbacks(agentSession.id, context),
+          onTurnComplete: verification.onTurnComplete,
+        },
+        { context, abortController }
+      );
+
+      this.saveConversation(
+        agentSession.id,
+        {
+          ticketId,
+          interactionType: "issue_assignment",
+          worktreePath: worktree.worktreePath,
+          repository,
+        },
+        result
+      );
+      this.recordUsage(agentSession.id, ticketId, "issue_assignment", result);
+
+      if (result.aborted) {
+        await this.handleStopped(
+          agentSession.id,
+          ticketId,
+          context,
+          worktree
+        );
+      } else if (result.success) {
+        await this.completeImplementation(
+          agentSession.id,
+          ticketId,
+          worktree.worktreePath,
+          repository,
+          verification,
+          result.result || "Implemented the ticket.",
+          result.usage,
+          "Implementation complete!"
+        );
+      } else {
+        await this.createError(
+          agentSession.id,
+          `Implementation encountered issues:\n${result.errors?.join("\n")}`
+        );
+        await this.setTicketStatus(ticketId, "failed");
+      }
+    } catch (error) {
+      const errorMessage = `Agent error: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+      console.error(errorMessage, error);
+      await this.createError(agentSession.id, errorMessage);
+      await this.setTicketStatus(ticketId, "failed");
+    }
+  }
+
+  /**
+   * Handle a question in a comment thread - answer read-only from a snapshot
+   * of the base branch, without creating a ticket worktree.
+   */
+  private async handleQuestion(
+    agentSession: AgentSessionEventWebhookPayload["agentSession"],
+    repository: RepositoryTarget,
+    controls: SessionControls,
+    previousComments?: PreviousComment[],
+    ticketId?: string
+  ): Promise<void> {
+    let questionCheckout: QuestionCheckout | undefined;
+
+    try {
+      console.log(`Handling question for ticket: ${ticketId}`);
+
+      await this.createThought(
+        agentSession.id,
+        `Analyzing your question and searching the codebase...\n\nBase branch: ${describeBaseBranch(repository)}`
+      );
+
+      // Extract the question from the comment
+      const question = agentSession.comment?.body || "";
+      if (!question) {
+        console.error("No question found in comment");
+        await this.createError(agentSession.id, "No question found in comment");
+        return;
+      }
+
+      // Build context from previous comments
+      const previousContext =
+        previousComments?.map((c) => `Comment: ${c.body}`).join("\n\n") || "";
+
+      questionCheckout = await this.checkoutForQuestion(
+        agentSession.id,
+        repository
+      );
+      const { context, permissions } = questionCheckout;
+      console.log(`Answering question in: ${context.cwd}`);
+
+      const userPrompt = questionPrompt(question, previousContext, ticketId);
+      console.log(userPrompt);
+      controls.inputChannel.start(createUserMessage(userPrompt));
+
+      const result = await this.runAgent(
+        agentSession.id,
+        ticketId,
+        repository,
+        controls.inputChannel,
+        this.createCallbacks(agentSession.id, context),
+        {
+          context,
+          // Limit tools for read-only question answering
+          tools: QUESTION_TOOLS,
+          abortController: controls.abortController,
+          permissions,
+        }
+      );
+
+      this.saveConversation(
+        agentSession.id,
+        {
+          ticketId: ticketId ?? "unknown",
+          interactionType: "question",
+          repository,
+        },
+        result
+      );
+      this.recordUsage(
+        agentSession.id,
+        ticketId ?? "unknown",
+        "question",
+        result
+      );
+
+      if (result.aborted) {
+        await this.acknowledgeStop(
+          agentSession.id,
+          sessionRegistry.get(agentSession.id)?.abortReason
+        );
+      } else if (result.success) {
+        await this.createResponse(
+          agentSession.id,
+          withUsage(
+            result.result ||
+              "I've analyzed the codebase and provided my answer above.",
+            result.usage
+          )
+        );
+      } else {
+        await this.createError(
+          agentSession.id,
+          `Error answering question:\n${result.errors?.join("\n")}`
+        );
+      }
+    } catch (error) {
+      const errorMessage = `Agent error: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+      console.error(errorMessage, error);
+      await this.createError(agentSession.id, errorMessage);
+    } finally {
+      await questionCheckout?.release();
+    }
+  }
+
+  /**
+   * Check out a clean snapshot of the base branch for a question session.
+   * Its path is stable per session so follow-ups can resume the
+   * conversation. Falls back to the main checkout if the snapshot cannot be
+   * created; the read-only policy applies either way.
+   */
+  private async checkoutForQuestion(
+    agentSessionId: string,
+    repository: RepositoryTarget
+  ): Promise<QuestionCheckout> {
+    const { repoBasePath, repoName, baseBranch } = repository;
+    const snapshotName = `question-${agentSessionId}`;
+    let snapshotPath: string | undefined;
+
+    try {
+      snapshotPath = await createSnapshot({
+        repoBasePath,
+        repoName,
+        branchName: snapshotName,
+        baseBranch,
+      });
+    } catch (error) {
+      console.warn(
+        `Failed to create a snapshot, answering in the main checkout: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    const cwd = snapshotPath ?? path.join(repoBasePath, repoName);
+    return {
+      context: createExecutionContext({
+        cwd,
+        repoBasePath,
+        repoName,
+        sessionId: agentSessionId,
+        repository,
+      }),
+      permissions: createPermissionPolicy({
+        cwd,
+        writableRoots: [],
+        repository,
+        readOnly: true,
+      }),
+      release: async () => {
+        if (snapshotPath) {
+          await cleanupWorktree(repoBasePath, repoName, snapshotName);
+        }
+        await removeCommandSandbox(getSessionSandboxName(agentSessionId));
+      },
+    };
+  }
+
+  /**
+   * Build the implementation prompt from the ticket's implementation plan and
+   * post the parsed plan to the session. Falls back to the ticket skill when
+   * the ticket has no "## Implementation Plan" section.
+   */
+  private async buildImplementationPrompt(
+    agentSessionId: string,
+    ticketId: string
+  ): Promise<{ prompt: string; plan: ImplementationPlan | null }> {
+    try {
+      const issue = await this.linearClient.issue(ticketId);
+      const { description, planContent } = splitImplementationPlan(
+        issue.description || ""
+      );
+
+      if (planContent !== null) {
+        const plan = parseImplementationPlan(planContent);
+        await this.createThought(agentSessionId, formatPlanSummary(plan));
+        return {
+          prompt: generateAgentPrompt(
+            `${issue.identifier}: ${issue.title}`,
+            description,
+            plan
+          ),
+          plan,
+        };
+      }
+
+      console.log(`No implementation plan found in ticket ${ticketId}`);
+    } catch (error) {
+      console.error(
+        `Failed to load the implementation plan: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    await this.createThought(
+      agentSessionId,
+      "No implementation plan found in the ticket - falling back to the ticket skill."
+    );
+    return { prompt: implementationPrompt(ticketId), plan: null };
+  }
+
+  /**
+   * Run the agent for a session within its budget, guardrails and
+   * permission policy. The watchdog stops the run when it exceeds its turn,
+   * runtime or idle limit, and the policy limits file writes to the
+   * session's worktree. The repository's configuration file can restrict
+   * the tools and add instructions.
+   */
+  private async runAgent(
+    agentSessionId: string,
+    ticketId: string | undefined,
+    repository: RepositoryTarget,
+    inputChannel: InputChannel,
+    callbacks: AgentCallbacks,
+    options: ExecutePromptOptions
+  ): Promise<ExecutePromptResult> {
+    const limits = await this.getGuardrails(ticketId, repository);
+    const watchdog = startWatchdog(agentSessionId, limits);
+    const { onTurnComplete } = callbacks;
+
+    try {
+      return await executeStreamingPrompt(
+        inputChannel,
+        {
+          ...callbacks,
+          onProgress: (turns) => watchdog.recordProgress(turns),
+          onAskUserQuestion: async (toolUseId, input) => {
+            await this.handleAskUserQuestion(
+              agentSessionId,
+              toolUseId,
+              input,
+              limits.questionTimeoutMinutes
+            );
+          },
+          onTurnComplete: onTurnComplete
+            ? () => watchdog.pauseDuring(async () => onTurnComplete())
+            : undefined,
+        },
+        {
+          ...options,
+          tools: options.tools ?? repository.repoConfig?.tools,
+          instructions: repository.repoConfig?.instructions,
+          maxBudgetUsd: getRemainingSessionBudget(agentSessionId),
+          permissions:
+            options.permissions ??
+            createPermissionPolicy({
+              cwd: options.context.cwd,
+              writableRoots: options.context.worktreePath
+                ? [options.context.worktreePath]
+                : [],
+              repository,
+            }),
+        }
+      );
+    } finally {
+      watchdog.stop();
+    }
+  }
+
+  /**
+   * Apply the configuration file committed in a repository. An invalid file
+   * is reported to the session, and null is returned to end it.
+   */
+  private async loadRepoConfig(
+    agentSessionId: string,
+    repository: RepositoryTarget
+  ): Promise<RepositoryTarget | null> {
+    try {
+      return await withRepoConfig(repository);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(errorMessage);
+      await this.createError(
+        agentSessionId,
+        `${errorMessage}\n\nFix the file in the ${repository.name} repository and try again.`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the base branch of a new session, taking the ticket's labels and
+   * description into account. A missing base branch is reported to the
+   * session, and null is returned to end it.
+   */
+  private async resolveBaseBranch(
+    agentSessionId: string,
+    ticketId: string | undefined,
+    repository: RepositoryTarget
+  ): Promise<RepositoryTarget | null> {
+    const ticket: BaseBranchTicket = {};
+    if (ticketId && ticketId !== "unknown") {
+      try {
+        const issue = await this.linearClient.issue(ticketId);
+        const labels = await issue.labels();
+        ticket.labels = labels.nodes.map((label) => label.name);
+        ticket.description = issue.description ?? undefined;
+      } catch (error) {
+        console.error(
+          `Failed to load the ticket for its base branch: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+
+    try {
+      return await resolveBaseBranch(repository, ticket);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(errorMessage);
+      await this.createError(agentSessionId, errorMessage);
+      return null;
+    }
+  }
+
+  /**
+   * Get the guardrail limits for a ticket, taking overrides for its labels
+   * and estimate into account.
+   */
+  private async getGuardrails(
+    ticketId: string | undefined,
+    repository: RepositoryTarget
+  ): Promise<Required<GuardrailLimits>> {
+    if (!ticketId || ticketId === "unknown") {
+      return getGuardrailLimits(repository.guardrails, {});
+    }
+
+    try {
+      const issue = await this.linearClient.issue(ticketId);
+      const labels = await issue.labels();
+      return getGuardrailLimits(repository.guardrails, {
+        labels: labels.nodes.map((label) => label.name),
+        estimate: issue.estimate ?? undefined,
+      });
+    } catch (error) {
+      console.error(
+        `Failed to load the ticket for guardrails: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return getGuardrailLimits(repository.guardrails, {});
+    }
+  }
+
+  /**
+   * Get the abort controller and input channel registered for a session.
+   */
+  private getSessionControls(agentSessionId: string): SessionControls {
+    const session = sessionRegistry.get(agentSessionId);
+    return {
+      abortController: session?.abortController ?? new AbortController(),
+      inputChannel: session?.inputChannel ?? createInputChannel(),
+    };
+  }
+
+  /**
+   * Build the callbacks that relay agent output to the Linear session.
+   */
+  private createCallbacks(
+    agentSessionId: string,
+    context: ExecutionContext
+  ): AgentCallbacks {
+    const runningTools = new Map<string, NodeJS.Timeout>();
+
+    return {
+      // Not awaited: the publisher queues and merges activities in the
+      // background so a slow Linear API never holds up the agent
+      onText: (text) => {
+        void this.createThought(agentSessionId, text);
+      },
+      // Each tool call is one Action with its result; only tools that run
+      // for a long time are also shown in progress while they run
+      onToolStart: (toolName, input, toolUseId) => {
+        const timer = setTimeout(() => {
+          runningTools.delete(toolUseId);
+          const { action, parameter } = formatToolUse(
+            toolName,
+            input,
+            context.cwd
+          );
+          void this.createAction(agentSessionId, action, parameter);
+        }, LONG_RUNNING_TOOL_MS);
+        runningTools.set(toolUseId, timer);
+      },
+      onToolUse: (toolName, input, result, toolUseId) => {
+        clearTimeout(runningTools.get(toolUseId));
+        runningTools.delete(toolUseId);
+        const { action, parameter } = formatToolUse(
+          toolName,
+          input,
+          context.cwd
+        );
+        void this.createAction(agentSessionId, action, parameter, result);
+      },
+      onUsage: (usage) => {
+        sessionRegistry.setUsage(agentSessionId, usage);
+        const reason = checkSessionBudget(agentSessionId, usage.costUsd);
+        if (reason) {
+          sessionRegistry.abort(agentSessionId, reason);
+        }
+      },
+      onSystemInit: (tools, agents, sdkSessionId) => {
+        // Recorded so the session can be resumed after a restart
+        if (sdkSessionId) {
+          sessionRegistry.setSdkSessionId(agentSessionId, sdkSessionId);
+        }
+        console.log(
+          `Claude Agent initialized in ${context.cwd} with tools: ${tools
+            .filter((tool) => tool.indexOf("mcp_") === -1)
+            .join(", ")}`
+        );
+        if (agents) {
+          console.log(
+            `Claude Agent initialized with agents: ${agents.join(", ")}`
+          );
+        }
+      },
+    };
+  }
+
+  /**
+   * Add the usage of a finished run to the usage ledger.
+   */
+  private recordUsage(
+    agentSessionId: string,
+    ticketId: string,
+    interactionType: InteractionType,
+    result: ExecutePromptResult
+  ): void {
+    if (result.usage) {
+      usageLedger.record({
+        sessionId: agentSessionId,
+        ticketId,
+        interactionType,
+        usage: result.usage,
+      });
+    }
+  }
+
+  /**
+   * Remember the SDK session behind a Linear session so follow-up prompts
+   * can resume the conversation.
+   */
+  private saveConversation(
+    agentSessionId: string,
+    conversation: Pick<
+      ConversationRecord,
+      "ticketId" | "interactionType" | "worktreePath" | "repository"
+    >,
+    result: ExecutePromptResult
+  ): void {
+    if (!result.sessionId) {
+      return;
+    }
+
+    conversationStore.save({
+      ticketId: conversation.ticketId,
+      interactionType: conversation.interactionType,
+      worktreePath: conversation.worktreePath,
+      repository: conversation.repository,
+      sessionId: agentSessionId,
+      sdkSessionId: result.sessionId,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Set up the environment of a ticket worktree, posting each step to the
+   * session as an action. Failed installs abort the session or are handed
+   * to the agent, depending on the setup policy; failed type checks and
+   * builds always are.
+   */
+  private async setUpEnvironment(
+    agentSessionId: string,
+    context: ExecutionContext,
+    repository: RepositoryTarget
+  ): Promise<{ aborted: boolean; prompt?: string }> {
+    const { onFailure, timeoutMs, outputLimit } = getSetupConfig(repository);
+    const result = await setupEnvironment({
+      cwd: context.cwd,
+      sandbox: context.sandbox,
+      commands: repository.repoConfig?.commands.setup,
+      timeout: timeoutMs,
+      onStep: (step) => {
+        void this.createAction(
+          agentSessionId,
+          "Setup",
+          step.name,
+          formatSetupStep(step, outputLimit)
+        );
+      },
+    });
+
+    const installFailures = formatSetupFailures(result, outputLimit, false);
+    const checkFailures = formatSetupFailures(result, outputLimit, true);
+    if (installFailures && onFailure === "abort") {
+      await this.createError(
+        agentSessionId,
+        `Environment setup failed, so the agent was not started. The worktree is kept at ${context.cwd}.\n\n${installFailures}`
+      );
+      return { aborted: true };
+    }
+
+    if (!installFailures && !checkFailures) {
+      return { aborted: false };
+    }
+    await this.createThought(
+      agentSessionId,
+      installFailures
+        ? "Environment setup failed; starting anyway with the failure output."
+        : "The worktree has type check or build errors before any changes; they are passed on to the agent."
+    );
+    return {
+      aborted: false,
+      prompt: setupFailuresPrompt(installFailures, checkFailures),
+    };
+  }
+
+  /**
+   * Set up verification for an implementation run. After each successful
+   * turn the build and test commands run in the worktree; failures go back
+   * to the agent until the configured number of attempts is used up.
+   */
+  private async createVerificationRun(
+    agentSessionId: string,
+    context: ExecutionContext,
+    repository: RepositoryTarget,
+    plan: ImplementationPlan | null
+  ): Promise<VerificationRun> {
+    const { maxAttempts, timeoutMs, outputLimit } =
+      getBotConfig().verification;
+    const commands = await getVerificationCommands(
+      context.cwd,
+      plan,
+      getRepositoryVerifyCommands(repository)
+    );
+
+    const run: VerificationRun = {
+      attempts: 0,
+      onTurnComplete: async () => {
+        if (commands.length === 0 || run.attempts >= maxAttempts) {
+          return null;
+        }
+
+        run.attempts++;
+        await this.createThought(
+          agentSessionId,
+          `Running ${commands.length} build and test ${
+            commands.length === 1 ? "command" : "commands"
+          } to verify the changes...`
+        );
+
+        const result = await runVerification(commands, {
+          cwd: context.cwd,
+          sandbox: context.sandbox,
+          timeout: timeoutMs,
+          outputLimit,
+        });
+        run.passed = result.success;
+        run.report = formatVerificationReport(
+          result,
+          run.attempts,
+          maxAttempts
+        );
+        await this.createThought(agentSessionId, run.report);
+
+        if (result.success || run.attempts >= maxAttempts) {
+          return null;
+        }
+        return verificationFailedPrompt(
+          formatVerificationFailures(result),
+          run.attempts,
+          maxAttempts
+        );
+      },
+    };
+
+    return run;
+  }
+
+  /**
+   * Finish a successful implementation run: report verification and publish
+   * the changes, or report the failure when verification did not pass.
+   */
+  private async completeImplementation(
+    agentSessionId: string,
+    ticketId: string,
+    worktreePath: string,
+    repository: RepositoryTarget,
+    verification: VerificationRun,
+    summary: string,
+    usage?: UsageSummary,
+    heading?: string
   ): Promise<void> {
-    await this.linearClient.createAgentActivity({
+    // Reviewers need the plan check most when verification failed
+    const conformance = await this.reviewPlanConformance(
+      ticketId,
+      worktreePath,
+      repository.baseBranch
+    );
+
+    if (verification.passed === false) {
+      await this.createError(
+        agentSessionId,
+        withUsage(
+          [
+            `The changes failed verification after ${verification.attempts} ${
+              verification.attempts === 1 ? "attempt" : "attempts"
+            }, so no pull request was opened.`,
+            verification.report,
+            conformance?.summary,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+          usage
+        )
+      );
+      await this.setTicketStatus(ticketId, "failed");
+      return;
+    }
+
+    const verificationSummary =
+      verification.report ??
+      "No build or test commands were found, so the changes were not verified.";
+    const pullRequestSummary = await this.publishChanges(
+      ticketId,
+      worktreePath,
+      repository,
+      summary,
+      conformance
+    );
+    await this.createResponse(
       agentSessionId,
-      content: {
-        type: L.AgentActivityType.Action,
-        action,
-        parameter,
-      } as Content,
+      withUsage(
+        [heading, summary, verificationSummary, pullRequestSummary]
+          .filter(Boolean)
+          .join("\n\n"),
+        usage
+      )
+    );
+  }
+
+  /**
+   * Push the ticket branch and open (or update) its pull request, unless the
+   * plan conformance review blocks it. Returns the text for the final
+   * response; failures are reported, not thrown, since the implementation
+   * itself succeeded.
+   */
+  private async publishChanges(
+    ticketId: string,
+    worktreePath: string,
+    repository: RepositoryTarget,
+    summary: string,
+    conformance: ConformanceReview | null
+  ): Promise<string> {
+    const branchName = getTicketBranchName(repository, ticketId);
+    const sections: string[] = [];
+
+    if (conformance) {
+      sections.push(conformance.summary);
+      if (conformance.blocked) {
+        await this.setTicketStatus(ticketId, "failed");
+        sections.push(
+          `The changes deviate significantly from the implementation plan, so no pull request was opened. The work is kept on branch \`${branchName}\`.`
+        );
+        return sections.join("\n\n");
+      }
+    }
+
+    try {
+      const issue = await this.linearClient.issue(ticketId);
+
+      const { pullRequest, created } = await publishPullRequest({
+        worktreePath,
+        branchName,
+        baseBranch: repository.baseBranch,
+        github: repository.github,
+        pullRequest: repository.repoConfig?.pullRequest,
+        ticket: {
+          identifier: issue.identifier,
+          title: issue.title,
+          url: issue.url,
+        },
+        summary,
+      });
+
+      if (!pullRequest) {
+        sections.push("No changes were made, so no pull request was opened.");
+      } else {
+        await this.setTicketStatus(ticketId, "inReview");
+        sections.push(
+          `${created ? "Opened" : "Updated"} pull request: [#${
+            pullRequest.number
+          } ${pullRequest.title}](${pullRequest.url})`
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(`Failed to publish changes: ${errorMessage}`, error);
+      sections.push(`Could not open a pull request: ${errorMessage}`);
+    }
+
+    return sections.join("\n\n");
+  }
+
+  /**
+   * Compare the worktree's changes with the implementation plan in the
+   * ticket description. Returns null when the ticket has no plan or the
+   * check could not run.
+   */
+  private async reviewPlanConformance(
+    ticketId: string,
+    worktreePath: string,
+    baseBranch: string
+  ): Promise<ConformanceReview | null> {
+    try {
+      const issue = await this.linearClient.issue(ticketId);
+      const { planContent } = splitImplementationPlan(issue.description || "");
+      if (planContent === null) {
+        return null;
+      }
+
+      const plan = parseImplementationPlan(planContent);
+      const changes = await getChangedFiles(worktreePath, baseBranch);
+      const report = checkPlanConformance(plan, changes);
+      const { blockPullRequest, maxUnexpectedFiles } =
+        getBotConfig().planConformance;
+
+      return {
+        summary: formatConformanceReport(report),
+        blocked:
+          blockPullRequest &&
+          isSignificantDeviation(report, maxUnexpectedFiles),
+      };
+    } catch (error) {
+      console.error(
+        `Failed to check plan conformance: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Clean up after a stopped implementation run. The ticket moves to the
+   * failed state; on a stop signal the partially modified worktree and its
+   * sandbox are discarded so the next run starts from a clean checkout.
+   */
+  private async handleStopped(
+    agentSessionId: string,
+    ticketId: string,
+    context: ExecutionContext,
+    worktree: WorktreeResult
+  ): Promise<void> {
+    await this.setTicketStatus(ticketId, "failed");
+
+    // Runs stopped by the bot itself keep their work so they can be resumed
+    const reason = sessionRegistry.get(agentSessionId)?.abortReason;
+    if (reason) {
+      await this.createError(
+        agentSessionId,
+        `${reason} The work so far is kept on branch \`${worktree.branchName}\` - send a follow-up to continue.`
+      );
+      return;
+    }
+
+    let discarded = "";
+
+    try {
+      const status = await getWorktreeStatus(worktree.worktreePath);
+      if (status.hasUncommittedChanges) {
+        discarded = ` Discarded uncommitted changes on \`${worktree.branchName}\`.`;
+      }
+    } catch (error) {
+      console.error("Failed to read worktree status:", error);
+    }
+
+    await cleanupWorktree(
+      context.repoBasePath,
+      context.repoName,
+      worktree.branchName
+    );
+    await removeCommandSandbox(
+      getWorktreeSandboxName(context.repoName, worktree.branchName)
+    );
+
+    await this.createResponse(
+      agentSessionId,
+      `Execution stopped as requested.${discarded}`
+    );
+  }
+
+  /**
+   * Relay an AskUserQuestion call to Linear as an elicitation, which moves the
+   * session to awaitingInput. The session is stopped if no answer arrives
+   * within the timeout.
+   */
+  private async handleAskUserQuestion(
+    agentSessionId: string,
+    toolUseId: string,
+    input: AskUserQuestionInput,
+    timeoutMinutes: number
+  ): Promise<void> {
+    const session = sessionRegistry.get(agentSessionId);
+    if (session) {
+      session.pendingQuestion = { toolUseId, input, askedAt: new Date() };
+      sessionRegistry.setState(agentSessionId, "awaiting_input");
+      clearTimeout(session.timeoutHandle);
+      session.timeoutHandle = setTimeout(() => {
+        console.log(`Question timed out for session: ${agentSessionId}`);
+        sessionRegistry.abort(
+          agentSessionId,
+          `No answer was received within ${timeoutMinutes} minutes, so the session was stopped.`
+        );
+      }, timeoutMinutes * 60 * 1000);
+    }
+
+    await this.createElicitation(agentSessionId, formatQuestions(input));
+  }
+
+  private async createThought(
+    agentSessionId: string,
+    body: string
+  ): Promise<void> {
+    await activityPublisher.publish(this.linearClient, agentSessionId, {
+      type: L.AgentActivityType.Thought,
+      body,
+    });
+  }
+
+  private async createAction(
+    agentSessionId: string,
+    action: string,
+    parameter: string,
+    result?: string
+  ): Promise<void> {
+    await activityPublisher.publish(this.linearClient, agentSessionId, {
+      type: L.AgentActivityType.Action,
+      action,
+      parameter,
+      result,
+    });
+  }
+
+  private async createElicitation(
+    agentSessionId: string,
+    body: string
+  ): Promise<void> {
+    await activityPublisher.publish(this.linearClient, agentSessionId, {
+      type: L.AgentActivityType.Elicitation,
+      body,
     });
   }
 
@@ -351,12 +2073,9 @@ export class AgentClient {
     agentSessionId: string,
     body: string
   ): Promise<void> {
-    await this.linearClient.createAgentActivity({
-      agentSessionId,
-      content: {
-        type: L.AgentActivityType.Response,
-        body,
-      } as Content,
+    await activityPublisher.publish(this.linearClient, agentSessionId, {
+      type: L.AgentActivityType.Response,
+      body,
     });
   }
 
@@ -364,37 +2083,57 @@ export class AgentClient {
     agentSessionId: string,
     body: string
   ): Promise<void> {
-    await this.linearClient.createAgentActivity({
-      agentSessionId,
-      content: {
-        type: L.AgentActivityType.Error,
-        body,
-      } as Content,
+    await activityPublisher.publish(this.linearClient, agentSessionId, {
+      type: L.AgentActivityType.Error,
+      body,
     });
   }
 
   /**
-   * Set the ticket status to a specified state (e.g., "In Progress", "Done").
+   * Move the ticket to the workflow state configured for a transition,
+   * falling back to a state of the matching type.
    */
   private async setTicketStatus(
     ticketId: string,
-    statusName: string
+    transition: WorkflowTransition
   ): Promise<void> {
     try {
       const issue = await this.linearClient.issue(ticketId);
       const team = await issue.team;
+      if (!team) {
+        console.warn(`No team found for ticket ${ticketId}`);
+        return;
+      }
 
-      const states = await team?.states();
-      const targetState = states?.nodes.find(
-        (state) => state.name.toLowerCase() === statusName.toLowerCase()
-      );
+      const statusName = getWorkflowStates(team.key)[transition];
+      const states = (await team.states()).nodes;
+      let targetState = statusName
+        ? states.find(
+            (state) => state.name.toLowerCase() === statusName.toLowerCase()
+          )
+        : undefined;
 
-      if (targetState) {
-        await issue.update({ stateId: targetState.id });
-        console.log(`Set ticket ${ticketId} to ${statusName}`);
-      } else {
-        console.warn(`Status "${statusName}" not found for ticket ${ticketId}`);
+      if (statusName && !targetState) {
+        console.warn(
+          `Status "${statusName}" not found for team ${team.key}, falling back by state type`
+        );
+      }
+      targetState ??= findStateByType(states, transition);
+
+      if (!targetState) {
+        console.warn(
+          `No "${transition}" status found for ticket ${ticketId}`
+        );
+        return;
+      }
+
+      const currentState = await issue.state;
+      if (currentState?.id === targetState.id) {
+        return;
       }
+
+      await issue.update({ stateId: targetState.id });
+      console.log(`Set ticket ${ticketId} to ${targetState.name}`);
     } catch (error) {
       console.error(
         `Failed to set ticket status: ${
@@ -410,28 +2149,48 @@ export class AgentClient {
  */
 export class CLIClient {
   /**
-   * Execute a prompt and output summary progress to console.
+   * Execute a prompt and output summary progress to console. The
+   * repository's configuration file, if any, applies to the run.
    */
-  public async executePrompt(userPrompt: string): Promise<void> {
+  public async executePrompt(
+    userPrompt: string,
+    context: ExecutionContext,
+    repository?: RepositoryTarget
+  ): Promise<void> {
     console.log("Starting agent...");
 
-    const result = await executePrompt(userPrompt, {
-      onText: () => {
-        console.log("Thinking...");
-      },
-      onToolUse: (toolName, input) => {
-        console.log(
-          `Using tool: ${toolName} with input: ${JSON.stringify(
+    const result = await executePrompt(
+      userPrompt,
+      {
+        onText: () => {
+          console.log("Thinking...");
+        },
+        onToolUse: (toolName, input, result) => {
+          const { action, parameter } = formatToolUse(
+            toolName,
             input,
-            null,
-            2
-          )}`
-        );
-      },
-      onSystemInit: () => {
-        console.log("Agent initialized");
+            context.cwd
+          );
+          console.log(`Using tool: ${action} ${parameter}`);
+          if (result?.startsWith("Denied: ")) {
+            console.log(result);
+          }
+        },
+        onSystemInit: () => {
+          console.log("Agent initialized");
+        },
       },
-    });
+      {
+        context,
+        tools: repository?.repoConfig?.tools,
+        instructions: repository?.repoConfig?.instructions,
+        permissions: createPermissionPolicy({
+          cwd: context.cwd,
+          writableRoots: [context.worktreePath ?? context.cwd],
+          repository,
+        }),
+      }
+    );
 
     console.log("\n--- Result ---");
     if (result.success) {
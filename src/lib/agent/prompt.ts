@@ -37,7 +37,7 @@ export const questionPrompt = (
   previousContext: string,
   ticketId?: string
 ) =>
-  `The user is asking a question about the codebase. Answer their question using the available read-only tools (Read, Grep, Glob, and git log via Bash).
+  `The user is asking a question about the codebase. Answer their question using the available read-only tools (Read, Grep, Glob, and inspection commands such as git log, git show, git blame, ls and rg via Bash). The session is read-only: commands that change files, branches or dependencies are denied.
 
 ${previousContext ? `## Previous conversation context:\n${previousContext}\n\n` : ""}## User's question:
 ${question}
@@ -45,3 +45,49 @@ ${question}
 ${ticketId ? `This question is related to Linear ticket ${ticketId}.\n\n` : ""}
 
 Provide a clear, helpful answer based on the codebase and git history. Do not make any changes to the code.`;
+
+export const userAnswerPrompt = (questions: string[], answer: string) =>
+  `The user answered your question${questions.length > 1 ? "s" : ""}:
+
+${questions.map((q) => `- ${q}`).join("\n")}
+
+## Answer:
+${answer}
+
+Continue with the task using this answer.`;
+
+export const followUpPrompt = (message: string) =>
+  `The user sent a follow-up message on this Linear session:
+
+${message}
+
+Continue from where you left off and address it.`;
+
+export const restartPrompt = () =>
+  `The coding bot restarted while you were working on this task. Check the current state of the working directory and continue from where you left off.`;
+
+export const verificationFailedPrompt = (
+  failures: string,
+  attempt: number,
+  maxAttempts: number
+) =>
+  `The build and test commands failed after your changes (verification attempt ${attempt} of ${maxAttempts}):
+
+${failures}
+
+Fix the cause of these failures, then end your turn so the commands can run again.`;
+
+export const setupFailuresPrompt = (
+  installFailures: string | null,
+  checkFailures: string | null
+) =>
+  `## Environment setup
+${
+  installFailures
+    ? `\nInstalling dependencies failed, so the environment may be incomplete. Fix or work around this first:\n\n${installFailures}\n`
+    : ""
+}${
+  checkFailures
+    ? `\nThese type check or build errors existed before any of your changes. They are not caused by you, but the build and test commands have to pass when you are done:\n\n${checkFailures}\n`
+    : ""
+}`;
@@ -0,0 +1,205 @@
+/**
+ * Tool Formatters turning tool calls into concise Linear Action activities,
+ * e.g. "Edit" with "src/app.ts (+12/−3)" instead of the raw JSON input.
+ */
+
+import path from "path";
+
+// Length caps for the formatted parameter
+const MAX_PARAMETER_LENGTH = 300;
+const MAX_LIST_LENGTH = 1000;
+
+/**
+ * The action and parameter of a Linear Action activity.
+ */
+export interface FormattedToolUse {
+  action: string;
+  parameter: string;
+}
+
+/**
+ * Formats the input of one tool. Paths are shown relative to the cwd.
+ */
+type ToolFormatter = (
+  input: Record<string, unknown>,
+  cwd?: string
+) => FormattedToolUse;
+
+/**
+ * Shorten text to a limit, marking the cut with an ellipsis.
+ */
+function cap(text: string, limit = MAX_PARAMETER_LENGTH): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function countLines(text: string): number {
+  return text ? text.split("\n").length : 0;
+}
+
+/**
+ * Show a path relative to the working directory when it lies inside it.
+ */
+function displayPath(filePath: unknown, cwd?: string): string {
+  const value = str(filePath);
+  if (!cwd || !path.isAbsolute(value)) {
+    return value;
+  }
+  const relative = path.relative(cwd, value);
+  return relative && !relative.startsWith("..") ? relative : value;
+}
+
+/**
+ * Compact JSON for tools without a formatter.
+ */
+function formatJson(input: unknown): string {
+  return cap(JSON.stringify(input) ?? "");
+}
+
+const formatters = new Map<string, ToolFormatter>([
+  [
+    "Read",
+    (input, cwd) => {
+      const offset = typeof input.offset === "number" ? input.offset : 1;
+      const range =
+        typeof input.limit === "number"
+          ? ` (lines ${offset}-${offset + input.limit - 1})`
+          : "";
+      return {
+        action: "Read",
+        parameter: cap(`${displayPath(input.file_path, cwd)}${range}`),
+      };
+    },
+  ],
+  [
+    "Edit",
+    (input, cwd) => {
+      const added = countLines(str(input.new_string));
+      const removed = countLines(str(input.old_string));
+      const all = input.replace_all === true ? ", all occurrences" : "";
+      return {
+        action: "Edit",
+        parameter: cap(
+          `${displayPath(input.file_path, cwd)} (+${added}/−${removed}${all})`
+        ),
+      };
+    },
+  ],
+  [
+    "Write",
+    (input, cwd) => ({
+      action: "Write",
+      parameter: cap(
+        `${displayPath(input.file_path, cwd)} (${countLines(
+          str(input.content)
+        )} lines)`
+      ),
+    }),
+  ],
+  [
+    "Bash",
+    (input) => ({ action: "Bash", parameter: cap(str(input.command)) }),
+  ],
+  [
+    "Grep",
+    (input, cwd) => {
+      const where = [
+        input.path ? ` in ${displayPath(input.path, cwd)}` : "",
+        input.glob ? ` (${str(input.glob)})` : "",
+      ].join("");
+      return {
+        action: "Grep",
+        parameter: cap(`"${str(input.pattern)}"${where}`),
+      };
+    },
+  ],
+  [
+    "Glob",
+    (input, cwd) => ({
+      action: "Glob",
+      parameter: cap(
+        `${str(input.pattern)}${
+          input.path ? ` in ${displayPath(input.path, cwd)}` : ""
+        }`
+      ),
+    }),
+  ],
+  [
+    "Task",
+    (input) => ({
+      action: "Task",
+      parameter: cap(
+        [str(input.subagent_type), str(input.description)]
+          .filter(Boolean)
+          .join(": ")
+      ),
+    }),
+  ],
+  [
+    "TodoWrite",
+    (input) => {
+      const todos = Array.isArray(input.todos)
+        ? (input.todos as Array<Record<string, unknown>>)
+        : [];
+      const marks: Record<string, string> = {
+        completed: "[x]",
+        in_progress: "[~]",
+        pending: "[ ]",
+      };
+      return {
+        action: "Update todos",
+        parameter: cap(
+          todos
+            .map(
+              (todo) =>
+                `- ${marks[str(todo.status)] ?? "[ ]"} ${str(todo.content)}`
+            )
+            .join("\n"),
+          MAX_LIST_LENGTH
+        ),
+      };
+    },
+  ],
+  [
+    "WebFetch",
+    (input) => ({ action: "Fetch", parameter: cap(str(input.url)) }),
+  ],
+  [
+    "WebSearch",
+    (input) => ({ action: "Search the web", parameter: cap(str(input.query)) }),
+  ],
+]);
+
+/**
+ * Format a tool call for a Linear Action activity. MCP tools
+ * ("mcp__server__tool") show their server and tool name; other unknown
+ * tools fall back to their name and compact JSON input.
+ */
+export function formatToolUse(
+  toolName: string,
+  input: unknown,
+  cwd?: string
+): FormattedToolUse {
+  const formatter = formatters.get(toolName);
+  const fields =
+    input && typeof input === "object"
+      ? (input as Record<string, unknown>)
+      : {};
+
+  if (formatter) {
+    return formatter(fields, cwd);
+  }
+
+  const mcpMatch = toolName.match(/^mcp__(.+?)__(.+)$/);
+  if (mcpMatch) {
+    return {
+      action: `${mcpMatch[1]}: ${mcpMatch[2]}`,
+      parameter: formatJson(input),
+    };
+  }
+
+  return { action: toolName, parameter: formatJson(input) };
+}
@@ -0,0 +1,142 @@
+/**
+ * Tool results from the SDK's user messages, summarized for the result of
+ * Linear Action activities.
+ */
+
+// Lines of output kept at the end of a summary
+const SUMMARY_LINES = 5;
+// Characters of output kept in a summary
+const SUMMARY_LENGTH = 1000;
+
+/**
+ * The result of a tool call.
+ */
+export interface ToolResult {
+  /** The text the agent received */
+  output: string;
+  isError: boolean;
+  /** Tool-specific result data, e.g. the patch of an Edit, if provided */
+  data?: unknown;
+}
+
+type ToolResultBlock = {
+  type: string;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+};
+
+/**
+ * Collect the tool results in the content of an SDK user message, keyed by
+ * tool use id. The message's structured result data belongs to its tool
+ * result when there is exactly one.
+ */
+export function extractToolResults(
+  content: unknown,
+  data?: unknown
+): Map<string, ToolResult> {
+  const results = new Map<string, ToolResult>();
+  if (!Array.isArray(content)) {
+    return results;
+  }
+
+  const blocks = (content as ToolResultBlock[]).filter(
+    (block) => block.type === "tool_result" && block.tool_use_id
+  );
+  for (const block of blocks) {
+    const output =
+      typeof block.content === "string"
+        ? block.content
+        : (block.content ?? [])
+            .map((part) => (part.type === "text" ? (part.text ?? "") : ""))
+            .join("\n");
+
+    results.set(block.tool_use_id!, {
+      output,
+      isError: block.is_error === true,
+      data: blocks.length === 1 ? data : undefined,
+    });
+  }
+  return results;
+}
+
+/**
+ * Keep the last lines of some output, within the summary length.
+ */
+function lastLines(output: string): string {
+  const lines = output.trimEnd().split("\n");
+  const tail = lines.slice(-SUMMARY_LINES).join("\n");
+  return tail.length > SUMMARY_LENGTH ? tail.slice(-SUMMARY_LENGTH) : tail;
+}
+
+function codeBlock(text: string): string {
+  return text ? `\n\n\`\`\`\n${text}\n\`\`\`` : "";
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${count === 1 ? noun : `${noun}s`}`;
+}
+
+/**
+ * Read a numeric or array field of a tool's result data.
+ */
+function dataField(data: unknown, ...keys: string[]): unknown {
+  let value = data;
+  for (const key of keys) {
+    if (!value || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Summarize a tool result for a Linear Action activity, e.g. the exit status
+ * and last lines of a command, or the number of hunks an edit changed.
+ */
+export function summarizeToolResult(
+  toolName: string,
+  result: ToolResult
+): string {
+  const tail = lastLines(result.output);
+
+  if (toolName === "Bash") {
+    const exitCode = result.output.match(/exit code (\d+)/i)?.[1];
+    const status = result.isError
+      ? `Failed${exitCode ? ` with exit code ${exitCode}` : ""}`
+      : "Succeeded";
+    return `${status}${codeBlock(tail)}`;
+  }
+
+  if (result.isError) {
+    return `Failed${codeBlock(tail)}`;
+  }
+
+  const patch = dataField(result.data, "structuredPatch");
+  switch (toolName) {
+    case "Edit":
+      return Array.isArray(patch)
+        ? `Edited ${plural(patch.length, "hunk")}`
+        : "Edited the file";
+    case "Write":
+      return dataField(result.data, "type") === "create"
+        ? "Created the file"
+        : "Rewrote the file";
+    case "Read": {
+      const numLines = dataField(result.data, "file", "numLines");
+      return typeof numLines === "number"
+        ? `Read ${plural(numLines, "line")}`
+        : "Read the file";
+    }
+    case "Glob":
+    case "Grep": {
+      const numFiles = dataField(result.data, "numFiles");
+      return typeof numFiles === "number"
+        ? `Found ${plural(numFiles, "file")}`
+        : tail;
+    }
+    default:
+      return tail || "Done";
+  }
+}
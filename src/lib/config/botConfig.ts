@@ -0,0 +1,348 @@
+/**
+ * Bot Configuration loaded from coding-bot.config.json at the project root,
+ * or from the file named by CODING_BOT_CONFIG. Every section is optional.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+
+const CONFIG_FILE = "coding-bot.config.json";
+
+// Get the project root directory based on this file's location (src/lib/config/botConfig.ts -> project root)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const regExpSchema = z.string().refine(isValidRegExp, {
+  message: "Invalid regular expression",
+});
+
+/**
+ * Linear workflow state names to move a ticket to during a session.
+ * Unset transitions fall back to a state of the matching type.
+ */
+const workflowStatesSchema = z.object({
+  /** When the bot starts working on the ticket */
+  started: z.string().optional(),
+  /** When the bot has opened a pull request */
+  inReview: z.string().optional(),
+  /** When the implementation fails */
+  failed: z.string().optional(),
+});
+
+const teamConfigSchema = z.object({
+  workflowStates: workflowStatesSchema.optional(),
+});
+
+/**
+ * Which tickets a repository handles. Every listed criterion must match;
+ * within a list any entry matches. An empty match handles every ticket.
+ */
+const repositoryMatchSchema = z.object({
+  organizationIds: z.array(z.string()).optional(),
+  /** Linear team keys (e.g. "ENG") */
+  teams: z.array(z.string()).optional(),
+  /** Linear project names */
+  projects: z.array(z.string()).optional(),
+  /** Linear label names */
+  labels: z.array(z.string()).optional(),
+});
+
+/**
+ * Limits that stop a runaway agent run. Unset limits inherit from the level
+ * above: ticket overrides, then the repository, then the defaults.
+ */
+const guardrailLimitsSchema = z.object({
+  /** Model responses per run */
+  maxTurns: z.number().int().positive().optional(),
+  /** Runtime per run, not counting time spent waiting for the user */
+  maxRuntimeMinutes: z.number().positive().optional(),
+  /** Time without any message from the agent */
+  idleTimeoutMinutes: z.number().positive().optional(),
+  /** Time to wait for the user's answer to a question from the agent */
+  questionTimeoutMinutes: z.number().positive().optional(),
+});
+
+/**
+ * Limits for tickets with one of the labels, or with at least the estimate.
+ */
+const guardrailOverrideSchema = guardrailLimitsSchema
+  .extend({
+    labels: z.array(z.string()).optional(),
+    minEstimate: z.number().min(0).optional(),
+  })
+  .refine(
+    (override) =>
+      override.labels !== undefined || override.minEstimate !== undefined,
+    { message: 'An override needs "labels" or "minEstimate"' }
+  );
+
+const guardrailsSchema = guardrailLimitsSchema.extend({
+  maxTurns: z.number().int().positive().default(200),
+  maxRuntimeMinutes: z.number().positive().default(120),
+  idleTimeoutMinutes: z.number().positive().default(20),
+  questionTimeoutMinutes: z.number().positive().default(30),
+  /** Per-ticket overrides, applied in order on top of the repository's */
+  overrides: z.array(guardrailOverrideSchema).default([]),
+});
+
+/**
+ * Extra secrets to redact from activities, logs, prompts and pull requests.
+ */
+const redactionSchema = z.object({
+  /** Environment variables whose values are secrets */
+  envVars: z.array(z.string()).default([]),
+  /** Regular expressions matching secrets */
+  patterns: z.array(regExpSchema).default([]),
+});
+
+/**
+ * What the agent may do besides working in its session worktree.
+ */
+const permissionsSchema = z.object({
+  /** Extra paths the agent may write to; relative paths are per worktree */
+  writablePaths: z.array(z.string().min(1)).default([]),
+  /** Branches that may not be force-pushed, besides the base branch */
+  protectedBranches: z.array(z.string().min(1)).default(["main", "master"]),
+  /** Regular expressions for Bash commands allowed despite a deny rule */
+  allowCommands: z.array(regExpSchema).default([]),
+  /** Regular expressions for Bash commands to deny */
+  denyCommands: z.array(regExpSchema).default([]),
+});
+
+/**
+ * How commands run in a worktree: setup, verification and the agent's Bash
+ * commands.
+ */
+const sandboxSchema = z.object({
+  /** Environment variables passed on to commands besides the built-in ones */
+  envAllowlist: z.array(z.string().min(1)).default([]),
+  /** CPU time limit per command in seconds */
+  cpuSeconds: z.number().int().positive().default(3600),
+  /**
+   * Virtual memory limit per command in megabytes, unlimited when unset.
+   * Runtimes reserving large address spaces (V8, Go's race detector, the
+   * JVM) fail under it even when they use little memory.
+   */
+  memoryMb: z.number().int().positive().optional(),
+  /** Run commands without network access (Linux user namespaces) */
+  noNetwork: z.boolean().default(false),
+});
+
+/**
+ * How a ticket worktree's environment is set up before the agent starts.
+ */
+const setupSchema = z.object({
+  /**
+   * When installing dependencies fails: "abort" ends the session,
+   * "continue" starts the agent with the failure output
+   */
+  onFailure: z.enum(["abort", "continue"]).default("continue"),
+  /** Timeout for each command in milliseconds */
+  timeoutMs: z.number().int().positive().default(300000),
+  /** Characters of output per failed step reported and sent to the agent */
+  outputLimit: z.number().int().positive().default(4000),
+});
+
+const repositorySchema = z.object({
+  name: z.string().min(1),
+  /** Path of the local checkout */
+  path: z.string().min(1),
+  /** GitHub repository as "owner/repo"; defaults to the origin remote */
+  github: z
+    .string()
+    .regex(/^[^/\s]+\/[^/\s]+$/, 'Expected "owner/repo"')
+    .optional(),
+  /** Detected from the repository when unset */
+  baseBranch: z.string().min(1).optional(),
+  /** Build and test commands used when a ticket's plan lists none */
+  verifyCommands: z.array(z.string().min(1)).optional(),
+  guardrails: guardrailLimitsSchema.optional(),
+  redaction: redactionSchema.optional(),
+  permissions: permissionsSchema.partial().optional(),
+  sandbox: sandboxSchema.partial().optional(),
+  setup: setupSchema.partial().optional(),
+  match: repositoryMatchSchema.default({}),
+});
+
+/**
+ * How the changes after a run are checked against the implementation plan.
+ */
+const planConformanceSchema = z.object({
+  /** Skip the pull request when the changes deviate significantly */
+  blockPullRequest: z.boolean().default(false),
+  /** Unplanned files tolerated before a deviation counts as significant */
+  maxUnexpectedFiles: z.number().int().min(0).default(3),
+});
+
+/**
+ * How an implementation is verified by running its build and test commands.
+ */
+const verificationSchema = z.object({
+  /** Verification runs, including the first, before giving up */
+  maxAttempts: z.number().int().min(1).default(3),
+  /** Timeout for each command in milliseconds */
+  timeoutMs: z.number().int().positive().default(600000),
+  /** Characters of output per failed command sent back to the agent */
+  outputLimit: z.number().int().positive().default(4000),
+});
+
+/**
+ * Spending limits in US dollars. Unset limits are not enforced.
+ */
+const budgetsSchema = z.object({
+  /** Total for a Linear session across its runs; stops the running agent */
+  perSessionUsd: z.number().positive().optional(),
+  /** Total per day (UTC); refuses new work once reached */
+  perDayUsd: z.number().positive().optional(),
+});
+
+const botConfigSchema = z.object({
+  workflowStates: workflowStatesSchema.optional(),
+  planConformance: planConformanceSchema.default({}),
+  verification: verificationSchema.default({}),
+  budgets: budgetsSchema.default({}),
+  guardrails: guardrailsSchema.default({}),
+  redaction: redactionSchema.default({}),
+  permissions: permissionsSchema.default({}),
+  sandbox: sandboxSchema.default({}),
+  setup: setupSchema.default({}),
+  /** Repository routes, checked in order; the first match wins */
+  repositories: z.array(repositorySchema).optional(),
+  /** Per-team overrides, keyed by Linear team key (e.g. "ENG") */
+  teams: z.record(z.string(), teamConfigSchema).optional(),
+});
+
+export type WorkflowStates = z.infer<typeof workflowStatesSchema>;
+export type WorkflowTransition = keyof WorkflowStates;
+export type TeamConfig = z.infer<typeof teamConfigSchema>;
+export type RepositoryConfig = z.infer<typeof repositorySchema>;
+export type PlanConformanceConfig = z.infer<typeof planConformanceSchema>;
+export type VerificationConfig = z.infer<typeof verificationSchema>;
+export type BudgetsConfig = z.infer<typeof budgetsSchema>;
+export type GuardrailLimits = z.infer<typeof guardrailLimitsSchema>;
+export type GuardrailsConfig = z.infer<typeof guardrailsSchema>;
+export type RedactionConfig = z.infer<typeof redactionSchema>;
+export type PermissionsConfig = z.infer<typeof permissionsSchema>;
+export type SandboxConfig = z.infer<typeof sandboxSchema>;
+export type SetupConfig = z.infer<typeof setupSchema>;
+export type BotConfig = z.infer<typeof botConfigSchema>;
+
+let cachedConfig: BotConfig | null = null;
+
+/**
+ * Get the path of the bot configuration file.
+ */
+export function getBotConfigPath(): string {
+  return path.resolve(
+    PROJECT_ROOT,
+    process.env.CODING_BOT_CONFIG || CONFIG_FILE
+  );
+}
+
+/**
+ * Load and validate the bot configuration. A missing file yields an empty
+ * configuration; an invalid file throws.
+ */
+export function getBotConfig(): BotConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = getBotConfigPath();
+  const exists = fs.existsSync(configPath);
+
+  // A missing file still goes through the schema to apply the defaults
+  let raw: unknown = {};
+  try {
+    if (exists) {
+      raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${configPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const parsed = botConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid configuration in ${configPath}: ${issues}`);
+  }
+
+  if (exists) {
+    console.log(`Loaded bot configuration from ${configPath}`);
+  }
+  cachedConfig = parsed.data;
+  return cachedConfig;
+}
+
+/**
+ * Get the workflow state names for a team, with team overrides applied on
+ * top of the defaults.
+ */
+export function getWorkflowStates(teamKey?: string): WorkflowStates {
+  const config = getBotConfig();
+  const teamStates = teamKey
+    ? config.teams?.[teamKey]?.workflowStates
+    : undefined;
+
+  return { ...config.workflowStates, ...teamStates };
+}
+
+/**
+ * Get the guardrail limits for a ticket: the defaults, then the
+ * repository's limits, then every override matching the ticket's labels or
+ * estimate.
+ */
+export function getGuardrailLimits(
+  repositoryLimits: GuardrailLimits | undefined,
+  ticket: { labels?: string[]; estimate?: number }
+): Required<GuardrailLimits> {
+  const { overrides, ...defaults } = getBotConfig().guardrails;
+  const labels = (ticket.labels ?? []).map((label) => label.toLowerCase());
+  let limits: Required<GuardrailLimits> = {
+    ...defaults,
+    ...withoutUnset(repositoryLimits ?? {}),
+  };
+
+  for (const override of overrides) {
+    const { labels: overrideLabels, minEstimate, ...overrideLimits } =
+      override;
+    const matchesLabel =
+      overrideLabels === undefined ||
+      overrideLabels.some((label) => labels.includes(label.toLowerCase()));
+    const matchesEstimate =
+      minEstimate === undefined ||
+      (ticket.estimate !== undefined && ticket.estimate >= minEstimate);
+    if (matchesLabel && matchesEstimate) {
+      limits = { ...limits, ...withoutUnset(overrideLimits) };
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Drop unset limits so they don't overwrite inherited ones when spread.
+ */
+function withoutUnset(limits: GuardrailLimits): GuardrailLimits {
+  return Object.fromEntries(
+    Object.entries(limits).filter(([, value]) => value !== undefined)
+  );
+}
@@ -0,0 +1,3 @@
+export * from "./botConfig.js";
+export * from "./repositories.js";
+export * from "./repoConfig.js";
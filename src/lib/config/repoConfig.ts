@@ -0,0 +1,168 @@
+/**
+ * Repository Configuration loaded from a .coding-bot.json file committed in
+ * the target repository. It declares how the bot works in that repository
+ * and takes precedence over the bot configuration. Every field is optional.
+ * The file is read from the base branch on origin, so merged changes apply
+ * without pulling the main checkout.
+ */
+
+import path from "path";
+import { simpleGit } from "simple-git";
+import { z } from "zod";
+import type { RepositoryTarget } from "./repositories.js";
+
+export const REPO_CONFIG_FILE = ".coding-bot.json";
+
+const DEFAULT_BRANCH_TEMPLATE = "ticket-{ticket}";
+
+const commandListSchema = z.array(z.string().min(1));
+
+const repoConfigSchema = z
+  .object({
+    /** Branch that ticket branches start from and pull requests target */
+    baseBranch: z.string().min(1).optional(),
+    /** Ticket branch name, with {ticket} replaced by the ticket identifier */
+    branchName: z
+      .string()
+      .includes("{ticket}", { message: 'Must contain "{ticket}"' })
+      .optional(),
+    commands: z
+      .object({
+        /** Run instead of the detected setup of the project's ecosystems */
+        setup: commandListSchema.optional(),
+        /** Verification commands, run after lint */
+        test: commandListSchema.optional(),
+        /** Verification commands, run before test */
+        lint: commandListSchema.optional(),
+      })
+      .strict()
+      .default({}),
+    /** Tools the agent may use when implementing tickets */
+    tools: z.array(z.string().min(1)).optional(),
+    /** Extra instructions appended to the agent's system prompt */
+    instructions: z.string().min(1).optional(),
+    /** Paths, relative to the repository root, the agent may not change */
+    protectedPaths: z.array(z.string().min(1)).default([]),
+    pullRequest: z
+      .object({
+        draft: z.boolean().default(false),
+        labels: z.array(z.string().min(1)).default([]),
+        /** GitHub users to request a review from */
+        reviewers: z.array(z.string().min(1)).default([]),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type RepoConfig = z.infer<typeof repoConfigSchema>;
+
+/**
+ * Load and validate the configuration file on a branch of origin, fetching
+ * the branch first. Returns null when the branch has none; an invalid file
+ * throws.
+ */
+export async function loadRepoConfig(
+  repoPath: string,
+  branch: string
+): Promise<RepoConfig | null> {
+  const git = simpleGit(repoPath);
+  const ref = `origin/${branch}`;
+
+  let raw: unknown;
+  try {
+    await git.fetch("origin", branch);
+    const listed = await git.raw([
+      "ls-tree",
+      "--name-only",
+      ref,
+      "--",
+      REPO_CONFIG_FILE,
+    ]);
+    if (!listed.trim()) {
+      return null;
+    }
+    raw = JSON.parse(await git.show([`${ref}:${REPO_CONFIG_FILE}`]));
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${REPO_CONFIG_FILE}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const parsed = repoConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid configuration in ${REPO_CONFIG_FILE}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Apply the configuration file on a repository's base branch to its target.
+ * Its base branch replaces all but one chosen by the ticket. Throws when the
+ * file is invalid or cannot be read.
+ */
+export async function withRepoConfig(
+  repository: RepositoryTarget
+): Promise<RepositoryTarget> {
+  const repoPath = path.join(repository.repoBasePath, repository.repoName);
+  const repoConfig = await loadRepoConfig(repoPath, repository.baseBranch);
+  if (!repoConfig) {
+    return repository;
+  }
+
+  console.log(`Loaded ${REPO_CONFIG_FILE} for repository ${repository.name}`);
+  // A base branch the ticket asked for is kept
+  const { baseBranchSource } = repository;
+  const fromTicket =
+    baseBranchSource === "label" || baseBranchSource === "description";
+  if (
+    !repoConfig.baseBranch ||
+    repoConfig.baseBranch === repository.baseBranch ||
+    fromTicket
+  ) {
+    return { ...repository, repoConfig };
+  }
+
+  try {
+    await simpleGit(repoPath).fetch("origin", repoConfig.baseBranch);
+  } catch {
+    throw new Error(
+      `The base branch ${repoConfig.baseBranch} from ${REPO_CONFIG_FILE} does not exist on origin.`
+    );
+  }
+  return {
+    ...repository,
+    baseBranch: repoConfig.baseBranch,
+    baseBranchSource: "repo config",
+    repoConfig,
+  };
+}
+
+/**
+ * Get the repository's own verification commands: the lint and test
+ * commands of its configuration file, otherwise its configured
+ * verifyCommands.
+ */
+export function getRepositoryVerifyCommands(
+  repository: RepositoryTarget
+): string[] | undefined {
+  const { lint = [], test = [] } = repository.repoConfig?.commands ?? {};
+  const commands = [...lint, ...test];
+  return commands.length > 0 ? commands : repository.verifyCommands;
+}
+
+/**
+ * Get the name of a ticket's branch in a repository.
+ */
+export function getTicketBranchName(
+  repository: RepositoryTarget,
+  ticketId: string
+): string {
+  const template = repository.repoConfig?.branchName ?? DEFAULT_BRANCH_TEMPLATE;
+  return template.replaceAll("{ticket}", ticketId);
+}
@@ -0,0 +1,177 @@
+/**
+ * Repository Routing for picking the repository a ticket is worked on in.
+ * Routes come from the "repositories" section of the bot configuration;
+ * without it every ticket goes to the REPO_BASE_PATH/REPO_NAME repository.
+ */
+
+import path from "path";
+import { getRepoPaths } from "../workflow/worktreeLifecycle.js";
+import {
+  getBotConfig,
+  getBotConfigPath,
+  type GuardrailLimits,
+  type PermissionsConfig,
+  type RepositoryConfig,
+  type SandboxConfig,
+  type SetupConfig,
+} from "./botConfig.js";
+import type { RepoConfig } from "./repoConfig.js";
+
+/** Base branch used when none is configured or detected */
+export const DEFAULT_BASE_BRANCH = "main";
+
+/**
+ * Where a repository's base branch comes from.
+ */
+export type BaseBranchSource =
+  | "default"
+  | "bot config"
+  | "repo config"
+  | "label"
+  | "description"
+  | "origin/HEAD"
+  | "github";
+
+/**
+ * A resolved repository to run a session in.
+ */
+export interface RepositoryTarget {
+  name: string;
+  repoBasePath: string;
+  repoName: string;
+  baseBranch: string;
+  /** "default" until the base branch is detected from the repository */
+  baseBranchSource: BaseBranchSource;
+  /** Build and test commands used when a ticket's plan lists none */
+  verifyCommands?: string[];
+  /** Guardrail limits overriding the configured defaults */
+  guardrails?: GuardrailLimits;
+  /** Tool permissions added to the configured defaults */
+  permissions?: Partial<PermissionsConfig>;
+  /** Command sandbox settings overriding the configured defaults */
+  sandbox?: Partial<SandboxConfig>;
+  /** Environment setup settings overriding the configured defaults */
+  setup?: Partial<SetupConfig>;
+  /** Unset when the GitHub repository should be read from the origin remote */
+  github?: { owner: string; repo: string };
+  /** The repository's own .coding-bot.json, once loaded */
+  repoConfig?: RepoConfig;
+}
+
+/**
+ * What is known about a ticket when routing it.
+ */
+export interface RoutingCriteria {
+  organizationId?: string;
+  teamKey?: string;
+  projectName?: string;
+  labels?: string[];
+}
+
+/**
+ * Get the repository configured through REPO_BASE_PATH and REPO_NAME.
+ */
+export function getDefaultRepository(): RepositoryTarget {
+  const { repoBasePath, repoName } = getRepoPaths();
+  const repoFullName = process.env.REPO_NAME || "";
+  const [owner, repo] = repoFullName.split("/");
+
+  return {
+    name: repoName,
+    repoBasePath,
+    repoName,
+    baseBranch: DEFAULT_BASE_BRANCH,
+    baseBranchSource: "default",
+    github: repoFullName.indexOf("/") !== -1 ? { owner, repo } : undefined,
+  };
+}
+
+/**
+ * Get the environment setup settings for a repository.
+ */
+export function getSetupConfig(repository: RepositoryTarget): SetupConfig {
+  return { ...getBotConfig().setup, ...repository.setup };
+}
+
+/**
+ * Get the key identifying a repository, e.g. for per-repo queue limits.
+ */
+export function getRepositoryKey(repository: RepositoryTarget): string {
+  return path.join(repository.repoBasePath, repository.repoName);
+}
+
+/**
+ * Resolve the repository for a ticket. Returns null when routes are
+ * configured but none of them matches.
+ */
+export function resolveRepository(
+  criteria: RoutingCriteria
+): RepositoryTarget | null {
+  const routes = getBotConfig().repositories;
+  if (!routes || routes.length === 0) {
+    return getDefaultRepository();
+  }
+
+  const route = routes.find((candidate) => matchesRoute(candidate, criteria));
+  return route ? toRepositoryTarget(route) : null;
+}
+
+/**
+ * Describe the routing criteria of a ticket for error messages.
+ */
+export function describeCriteria(criteria: RoutingCriteria): string {
+  const parts = [
+    `team ${criteria.teamKey ?? "(none)"}`,
+    `project ${criteria.projectName ?? "(none)"}`,
+    `labels ${criteria.labels?.length ? criteria.labels.join(", ") : "(none)"}`,
+  ];
+  return parts.join(", ");
+}
+
+function matchesRoute(
+  route: RepositoryConfig,
+  criteria: RoutingCriteria
+): boolean {
+  const { organizationIds, teams, projects, labels } = route.match;
+
+  return (
+    includesValue(organizationIds, criteria.organizationId) &&
+    includesValue(teams, criteria.teamKey) &&
+    includesValue(projects, criteria.projectName) &&
+    (!labels ||
+      (criteria.labels ?? []).some((label) => includesValue(labels, label)))
+  );
+}
+
+/**
+ * Case-insensitive membership check; an unset list accepts any value.
+ */
+function includesValue(list: string[] | undefined, value?: string): boolean {
+  if (!list) {
+    return true;
+  }
+  if (!value) {
+    return false;
+  }
+  return list.some((entry) => entry.toLowerCase() === value.toLowerCase());
+}
+
+function toRepositoryTarget(route: RepositoryConfig): RepositoryTarget {
+  // Relative paths are relative to the configuration file
+  const repoPath = path.resolve(path.dirname(getBotConfigPath()), route.path);
+  const [owner, repo] = route.github?.split("/") ?? [];
+
+  return {
+    name: route.name,
+    repoBasePath: path.dirname(repoPath),
+    repoName: path.basename(repoPath),
+    baseBranch: route.baseBranch ?? DEFAULT_BASE_BRANCH,
+    baseBranchSource: route.baseBranch ? "bot config" : "default",
+    verifyCommands: route.verifyCommands,
+    guardrails: route.guardrails,
+    permissions: route.permissions,
+    sandbox: route.sandbox,
+    setup: route.setup,
+    github: owner && repo ? { owner, repo } : undefined,
+  };
+}
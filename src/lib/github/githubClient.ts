@@ -260,6 +260,23 @@ export function createGitHubClientFromEnv(
   return new GitHubClient({ token, owner, repo });
 }
 
+/**
+ * Parse the owner and repository name from a GitHub remote URL.
+ * Supports SSH (git@github.com:owner/repo.git) and HTTPS remotes.
+ */
+export function parseGitHubRemote(
+  remoteUrl: string
+): { owner: string; repo: string } | null {
+  const match = remoteUrl.match(
+    /github\.com[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/
+  );
+  if (!match) {
+    return null;
+  }
+
+  return { owner: match[1], repo: match[2] };
+}
+
 /**
  * Generate a PR body from implementation details.
  */
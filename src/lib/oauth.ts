@@ -3,6 +3,7 @@ import fs from "fs/promises";
 import path from "path";
 import { fileURLToPath } from "node:url";
 import { OAuthTokenResponse, StoredTokenData } from "./types.js";
+import { redactor } from "./redaction/index.js";
 
 const TOKENS_DIR = ".tokens";
 const OAUTH_TOKEN_KEY_PREFIX = "linear_oauth_token_";
@@ -165,6 +166,8 @@ export async function getOAuthToken(
       console.warn("Found invalid token format");
       return null;
     }
+    redactor.addSecret(tokenData.access_token);
+    redactor.addSecret(tokenData.refresh_token);
 
     // Check if token is expired (with 5 minute buffer)
     const bufferTime = 5 * 60 * 1000;
@@ -213,6 +216,9 @@ export async function setOAuthTokenData(
   tokenData: StoredTokenData,
   workspaceId: string
 ): Promise<void> {
+  redactor.addSecret(tokenData.access_token);
+  redactor.addSecret(tokenData.refresh_token);
+
   await ensureTokensDir();
   const tokenPath = getWorkspaceTokenPath(workspaceId);
   const fullPath = path.resolve(PROJECT_ROOT, tokenPath);
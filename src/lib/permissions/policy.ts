@@ -0,0 +1,236 @@
+/**
+ * Tool Permission Policy deciding which tool calls the agent may make.
+ * File writes are limited to the session's writable paths, and Bash
+ * commands matching a deny rule are refused, also when quoted or run through
+ * a nested shell. Rules come from the built-in defaults and the
+ * "permissions" section of the bot configuration, globally and per
+ * repository, and from the protected paths of the repository's
+ * .coding-bot.json. Read-only sessions may only run inspection commands.
+ */
+
+import path from "path";
+import { getBotConfig, type RepositoryTarget } from "../config/index.js";
+import { checkReadOnlyCommand } from "./readOnlyCommands.js";
+
+/**
+ * A Bash command the agent may not run, with the reason reported to it.
+ */
+interface DenyRule {
+  pattern: RegExp;
+  reason: string;
+}
+
+// Tools that write files, with the input field holding the path
+const FILE_WRITE_TOOLS: Record<string, string> = {
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  Write: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+const DEFAULT_DENY_RULES: DenyRule[] = [
+  {
+    pattern: /\brm\s+(?:-\S+\s+)*(?:\/\*?|~\/?|\$HOME\/?)(?=\s|[;&|]|$)/,
+    reason: "Deleting the root or home directory is not allowed.",
+  },
+  {
+    pattern: /\b(?:curl|wget)\b[^;&|]*\|\s*(?:sudo\s+)?(?:ba|da|k|z)?sh\b/,
+    reason: "Piping a download into a shell is not allowed.",
+  },
+  {
+    pattern: /\bsudo\b/,
+    reason: "Running commands as root is not allowed.",
+  },
+  {
+    pattern: /\bmkfs(?:\.\w+)?\b|\bdd\b[^;&|]*\bof=\/dev\//,
+    reason: "Writing to block devices is not allowed.",
+  },
+  {
+    pattern: /:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/,
+    reason: "Fork bombs are not allowed.",
+  },
+];
+
+const FORCE_PUSH =
+  /\bgit\s+push\b[^;&|]*(?:\s--force(?:-with-lease)?\b|\s-f\b|\s\+\S)/;
+
+// Scripts run by a nested shell or eval, e.g. bash -c 'rm -rf /'
+const NESTED_SCRIPT =
+  /\b(?:(?:ba|da|k|z)?sh\s+(?:-\w+\s+)*-\w*c|eval)\s+(?:'([^']*)'|"((?:[^"\\]|\\.)*)"|([^;&|]+))/g;
+
+// Nested scripts are unwrapped up to this depth
+const MAX_NESTING = 3;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Get the forms of a command the deny rules are checked against: the command
+ * itself, the command with quotes removed, and the same for every script it
+ * runs through a nested shell or eval.
+ */
+function getCommandForms(command: string, depth = 0): string[] {
+  const forms = [command, command.replace(/["'\\]/g, "")];
+  if (depth < MAX_NESTING) {
+    for (const match of command.matchAll(NESTED_SCRIPT)) {
+      const script =
+        match[1] ?? match[2]?.replace(/\\(.)/g, "$1") ?? match[3];
+      forms.push(...getCommandForms(script, depth + 1));
+    }
+  }
+  return forms;
+}
+
+/**
+ * Check whether a path lies inside a directory.
+ */
+function isInside(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Permission policy for one agent run.
+ */
+export class PermissionPolicy {
+  constructor(
+    /** Directories the agent may write to; none for read-only sessions */
+    private readonly writableRoots: string[],
+    /** Paths inside the writable roots the agent may not change */
+    private readonly protectedPaths: string[],
+    private readonly cwd: string,
+    private readonly protectedBranches: string[],
+    private readonly allowCommands: RegExp[],
+    private readonly denyRules: DenyRule[],
+    /** Limit Bash to inspection commands, ignoring the allowed commands */
+    private readonly readOnly = false
+  ) {}
+
+  /**
+   * Check a tool call. Returns the reason to deny it, or null to allow it.
+   */
+  check(toolName: string, input: Record<string, unknown>): string | null {
+    const pathField = FILE_WRITE_TOOLS[toolName];
+    if (pathField) {
+      return this.checkWrite(String(input[pathField] ?? ""));
+    }
+    if (toolName === "Bash") {
+      return this.checkCommand(String(input.command ?? ""));
+    }
+    return null;
+  }
+
+  private checkWrite(filePath: string): string | null {
+    if (this.writableRoots.length === 0) {
+      return "This session is read-only; files cannot be changed.";
+    }
+
+    const resolved = path.resolve(this.cwd, filePath);
+    const protectedPath = this.protectedPaths.find((protectedPath) =>
+      isInside(resolved, protectedPath)
+    );
+    if (protectedPath) {
+      return `${protectedPath} is protected by the repository's .coding-bot.json; it cannot be changed.`;
+    }
+    if (this.writableRoots.some((root) => isInside(resolved, root))) {
+      return null;
+    }
+    const roots = this.writableRoots.join(", ");
+    return `Writing to ${resolved} is not allowed; only files in ${roots} may be changed.`;
+  }
+
+  private checkCommand(command: string): string | null {
+    if (this.readOnly) {
+      return checkReadOnlyCommand(command);
+    }
+    if (this.allowCommands.some((pattern) => pattern.test(command))) {
+      return null;
+    }
+
+    for (const form of getCommandForms(command)) {
+      const rule = this.denyRules.find(({ pattern }) => pattern.test(form));
+      if (rule) {
+        return rule.reason;
+      }
+
+      if (FORCE_PUSH.test(form)) {
+        const branch = this.protectedBranches.find((name) =>
+          new RegExp(`(?:^|[\\s:+/])${escapeRegExp(name)}(?=\\s|$)`).test(
+            form
+          )
+        );
+        if (branch) {
+          return `Force-pushing to the protected branch ${branch} is not allowed.`;
+        }
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Create the permission policy for a run. Relative writable paths from the
+ * configuration and protected paths from the repository's configuration
+ * file are resolved against the first writable root. A read-only
+ * policy allows no writes and only inspection commands.
+ */
+export function createPermissionPolicy(options: {
+  cwd: string;
+  writableRoots: string[];
+  repository?: RepositoryTarget;
+  readOnly?: boolean;
+}): PermissionPolicy {
+  const { cwd, repository, readOnly = false } = options;
+  const global = getBotConfig().permissions;
+  const local = repository?.permissions ?? {};
+
+  const [primaryRoot] = readOnly ? [] : options.writableRoots;
+  const writableRoots =
+    primaryRoot === undefined
+      ? []
+      : [
+          ...options.writableRoots,
+          ...[...global.writablePaths, ...(local.writablePaths ?? [])].map(
+            (writablePath) => path.resolve(primaryRoot, writablePath)
+          ),
+        ];
+
+  const protectedPaths =
+    primaryRoot === undefined
+      ? []
+      : (repository?.repoConfig?.protectedPaths ?? []).map((protectedPath) =>
+          path.resolve(primaryRoot, protectedPath)
+        );
+
+  const protectedBranches = [
+    ...global.protectedBranches,
+    ...(local.protectedBranches ?? []),
+    ...(repository ? [repository.baseBranch] : []),
+  ];
+
+  const allowCommands = [
+    ...global.allowCommands,
+    ...(local.allowCommands ?? []),
+  ].map((pattern) => new RegExp(pattern));
+
+  const denyRules = [
+    ...DEFAULT_DENY_RULES,
+    ...[...global.denyCommands, ...(local.denyCommands ?? [])].map(
+      (pattern) => ({
+        pattern: new RegExp(pattern),
+        reason: `Commands matching /${pattern}/ are not allowed.`,
+      })
+    ),
+  ];
+
+  return new PermissionPolicy(
+    writableRoots,
+    protectedPaths,
+    cwd,
+    [...new Set(protectedBranches)],
+    allowCommands,
+    denyRules,
+    readOnly
+  );
+}
@@ -0,0 +1,250 @@
+/**
+ * Read-only Bash commands for question sessions. A command is allowed only
+ * when every part of it runs an inspection command from the allowlist, with
+ * no options that write files or run other programs, and no redirection
+ * other than to /dev/null.
+ */
+
+// Commands that only inspect, with the options that would make them write
+// files or run other programs
+const READ_ONLY_COMMANDS: Record<string, string[]> = {
+  basename: [],
+  cat: [],
+  cd: [],
+  cmp: [],
+  cut: [],
+  diff: [],
+  dirname: [],
+  du: [],
+  echo: [],
+  file: [],
+  find: [
+    "-delete",
+    "-exec",
+    "-execdir",
+    "-ok",
+    "-okdir",
+    "-fls",
+    "-fprint",
+    "-fprint0",
+    "-fprintf",
+  ],
+  grep: [],
+  head: [],
+  jq: [],
+  ls: [],
+  nl: [],
+  pwd: [],
+  readlink: [],
+  realpath: [],
+  rg: ["--pre"],
+  sort: ["-o", "--output", "--compress-program"],
+  stat: [],
+  tail: [],
+  tr: [],
+  tree: ["-o"],
+  wc: [],
+  which: [],
+};
+
+// Git subcommands that only read the repository
+const READ_ONLY_GIT_COMMANDS = new Set([
+  "blame",
+  "cat-file",
+  "describe",
+  "diff",
+  "grep",
+  "log",
+  "ls-files",
+  "ls-tree",
+  "merge-base",
+  "rev-list",
+  "rev-parse",
+  "shortlog",
+  "show",
+  "status",
+]);
+
+// Git options that write files or run other programs
+const DENIED_GIT_OPTIONS = [
+  "--output",
+  "-O",
+  "--open-files-in-pager",
+  "--ext-diff",
+];
+
+// Git options allowed before the subcommand
+const GIT_GLOBAL_OPTIONS = new Set(["--no-pager", "-P"]);
+
+// Redirection targets that don't write files
+const SAFE_REDIRECT_TARGETS = new Set(["/dev/null", "&1", "&2"]);
+
+/**
+ * Split a command into its simple commands, each a list of words. Quotes are
+ * removed from words but kept from splitting them. Returns the reason the
+ * command cannot be allowed if it uses substitution or writes a file through
+ * a redirection.
+ */
+function parseCommand(command: string): string[][] | string {
+  const commands: string[][] = [[]];
+  let word: string | null = null;
+  let quote: "'" | '"' | null = null;
+
+  const endWord = () => {
+    if (word !== null) {
+      commands[commands.length - 1].push(word);
+      word = null;
+    }
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        word += char;
+      }
+      continue;
+    }
+
+    if (char === "`" || (char === "$" && command[i + 1] === "(")) {
+      return "Command substitution is not allowed in read-only mode.";
+    }
+    if (char === "\\" && i + 1 < command.length) {
+      word = (word ?? "") + command[++i];
+      continue;
+    }
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else {
+        word += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      word = word ?? "";
+    } else if (/\s/.test(char) && char !== "\n") {
+      endWord();
+    } else if (";&|\n".includes(char)) {
+      endWord();
+      commands.push([]);
+      if (command[i + 1] === char) {
+        i++;
+      }
+    } else if (char === ">" || char === "<") {
+      if (command[i + 1] === "(") {
+        return "Process substitution is not allowed in read-only mode.";
+      }
+      // The file descriptor, e.g. the 2 of 2>&1, belongs to the redirection
+      if (word !== null && /^\d+$/.test(word)) {
+        word = null;
+      }
+      endWord();
+
+      let operator = char;
+      while (command[i + 1] === ">" || command[i + 1] === "<") {
+        operator += command[++i];
+      }
+      let target = "";
+      while (command[i + 1] === " ") {
+        i++;
+      }
+      while (i + 1 < command.length && !/[\s;&|<>]/.test(command[i + 1])) {
+        target += command[++i];
+      }
+      if (command[i + 1] === "&" && target === "") {
+        target = command[++i];
+        while (/\d/.test(command[i + 1] ?? "")) {
+          target += command[++i];
+        }
+      }
+
+      if (operator.includes(">") && !SAFE_REDIRECT_TARGETS.has(target)) {
+        return "Writing files through a redirection is not allowed in read-only mode.";
+      }
+    } else {
+      word = (word ?? "") + char;
+    }
+  }
+
+  if (quote) {
+    return "The command has an unterminated quote.";
+  }
+  endWord();
+  return commands.filter((words) => words.length > 0);
+}
+
+/**
+ * Check whether one option list contains a denied option, also in its
+ * "--option=value" form, or for short options with the value attached, as
+ * in "-ofile".
+ */
+function findDeniedOption(args: string[], denied: string[]): string | null {
+  return (
+    args.find((arg) =>
+      denied.some(
+        (option) =>
+          arg === option ||
+          arg.startsWith(`${option}=`) ||
+          (/^-\w$/.test(option) && arg.startsWith(option))
+      )
+    ) ?? null
+  );
+}
+
+function checkGitCommand(args: string[]): string | null {
+  let index = 0;
+  while (index < args.length && GIT_GLOBAL_OPTIONS.has(args[index])) {
+    index++;
+  }
+
+  const subcommand = args[index];
+  if (!subcommand || !READ_ONLY_GIT_COMMANDS.has(subcommand)) {
+    const allowed = [...READ_ONLY_GIT_COMMANDS].join(", ");
+    return `git ${subcommand ?? ""} is not allowed in read-only mode; only ${allowed} are.`;
+  }
+
+  const option = findDeniedOption(args.slice(index + 1), DENIED_GIT_OPTIONS);
+  return option
+    ? `git ${subcommand} ${option} is not allowed in read-only mode.`
+    : null;
+}
+
+/**
+ * Check a Bash command for a read-only session. Returns the reason to deny
+ * it, or null to allow it.
+ */
+export function checkReadOnlyCommand(command: string): string | null {
+  const commands = parseCommand(command);
+  if (typeof commands === "string") {
+    return commands;
+  }
+
+  for (const [program, ...args] of commands) {
+    if (/^\w+=/.test(program)) {
+      return "Setting environment variables is not allowed in read-only mode.";
+    }
+
+    if (program === "git") {
+      const reason = checkGitCommand(args);
+      if (reason) {
+        return reason;
+      }
+      continue;
+    }
+
+    if (!Object.hasOwn(READ_ONLY_COMMANDS, program)) {
+      return `${program} is not allowed in read-only mode; use inspection commands such as ls, cat, rg, find or git log.`;
+    }
+    const option = findDeniedOption(args, READ_ONLY_COMMANDS[program]);
+    if (option) {
+      return `${program} ${option} is not allowed in read-only mode.`;
+    }
+  }
+  return null;
+}
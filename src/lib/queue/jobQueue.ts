@@ -0,0 +1,174 @@
+/**
+ * Job Queue for scheduling agent runs.
+ * Enforces a global and a per-repository concurrency limit and starts queued
+ * jobs in Linear issue priority order.
+ */
+
+export interface Job {
+  sessionId: string;
+  /** Repository the job works on, used for the per-repo limit */
+  repoKey: string;
+  /** Linear issue priority: 0 = none, 1 = urgent ... 4 = low */
+  priority: number;
+  /** Run the job; the queue slot is released when the promise settles */
+  run: () => Promise<void>;
+  /** Called with the number of jobs ahead whenever it changes */
+  onPositionChange?: (ahead: number) => Promise<void> | void;
+}
+
+export interface QueueLimits {
+  /** Maximum number of jobs running at once */
+  global: number;
+  /** Maximum number of jobs running at once against a single repository */
+  perRepo: number;
+}
+
+interface QueuedJob extends Job {
+  enqueuedAt: Date;
+  lastReportedAhead?: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Rank a Linear priority so that urgent sorts first and "no priority" last.
+ */
+function priorityRank(priority: number): number {
+  return priority > 0 ? priority : 5;
+}
+
+/**
+ * Read a positive integer limit from the environment.
+ */
+function limitFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return !isNaN(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Queue that runs jobs within concurrency limits.
+ */
+class JobQueue {
+  private pending: QueuedJob[] = [];
+  private running: Map<string, QueuedJob> = new Map();
+
+  constructor(readonly limits: QueueLimits) {}
+
+  /**
+   * Add a job to the queue. Resolves once the job has run (or was cancelled).
+   */
+  enqueue(job: Job): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ ...job, enqueuedAt: new Date(), resolve, reject });
+      console.log(
+        `Job queued: ${job.sessionId} (repo: ${job.repoKey}, priority: ${job.priority})`
+      );
+      this.drain();
+    });
+  }
+
+  /**
+   * Remove a job that has not started yet. Returns true if it was queued.
+   */
+  cancel(sessionId: string): boolean {
+    const index = this.pending.findIndex((job) => job.sessionId === sessionId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [job] = this.pending.splice(index, 1);
+    console.log(`Job cancelled: ${sessionId}`);
+    job.resolve();
+    this.drain();
+    return true;
+  }
+
+  /**
+   * Get the number of jobs ahead of a queued job, or undefined if not queued.
+   */
+  getPosition(sessionId: string): number | undefined {
+    const index = this.sorted().findIndex(
+      (job) => job.sessionId === sessionId
+    );
+    return index === -1 ? undefined : index;
+  }
+
+  /**
+   * Number of jobs currently running.
+   */
+  get runningCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Number of jobs waiting to run.
+   */
+  get queuedCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Start every queued job that fits within the limits, then report the new
+   * position of the jobs still waiting.
+   */
+  private drain(): void {
+    for (const job of this.sorted()) {
+      if (this.running.size >= this.limits.global) {
+        break;
+      }
+      if (this.runningForRepo(job.repoKey) >= this.limits.perRepo) {
+        continue;
+      }
+      this.start(job);
+    }
+
+    this.sorted().forEach((job, ahead) => {
+      if (job.lastReportedAhead === ahead) {
+        return;
+      }
+      job.lastReportedAhead = ahead;
+      Promise.resolve(job.onPositionChange?.(ahead)).catch((error) => {
+        console.error(`Failed to report queue position: ${error}`);
+      });
+    });
+  }
+
+  private start(job: QueuedJob): void {
+    this.pending = this.pending.filter((queued) => queued !== job);
+    this.running.set(job.sessionId, job);
+    console.log(`Job started: ${job.sessionId}`);
+
+    job
+      .run()
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        this.running.delete(job.sessionId);
+        console.log(`Job finished: ${job.sessionId}`);
+        this.drain();
+      });
+  }
+
+  private runningForRepo(repoKey: string): number {
+    let count = 0;
+    for (const job of this.running.values()) {
+      if (job.repoKey === repoKey) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private sorted(): QueuedJob[] {
+    return [...this.pending].sort(
+      (a, b) =>
+        priorityRank(a.priority) - priorityRank(b.priority) ||
+        a.enqueuedAt.getTime() - b.enqueuedAt.getTime()
+    );
+  }
+}
+
+// Export a singleton instance
+export const jobQueue = new JobQueue({
+  global: limitFromEnv("MAX_CONCURRENT_SESSIONS", 3),
+  perRepo: limitFromEnv("MAX_CONCURRENT_SESSIONS_PER_REPO", 2),
+});
@@ -0,0 +1,189 @@
+/**
+ * Secret Redaction for everything that leaves the process: Linear
+ * activities, logs, prompts and pull requests. Secrets are recognized by
+ * their known values (secret environment variables, stored OAuth tokens) and
+ * by common key patterns. More of both can be configured in the "redaction"
+ * section of the bot configuration, globally and per repository.
+ */
+
+import util from "util";
+import { getBotConfig } from "../config/index.js";
+
+export const REDACTED = "[REDACTED]";
+
+// Environment variables that always hold secrets
+const SECRET_ENV_VARS = [
+  "ANTHROPIC_API_KEY",
+  "GITHUB_TOKEN",
+  "LINEAR_API_KEY",
+  "LINEAR_CLIENT_SECRET",
+  "LINEAR_WEBHOOK_SECRET",
+];
+
+// Other environment variables whose name marks them as secret
+const SECRET_ENV_NAME = /API_?KEY|SECRET|TOKEN|PASSWORD|PRIVATE_KEY/i;
+
+// Shorter values are too likely to appear by chance
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Common secret formats. When a pattern has a "secret" group, only that
+ * part of the match is redacted.
+ */
+const SECRET_FORMATS = [
+  // Anthropic API keys
+  /sk-ant-[A-Za-z0-9_-]{20,}/g,
+  // GitHub tokens
+  /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  // Linear API keys and OAuth tokens
+  /\blin_(?:api|oauth)_[A-Za-z0-9]{32,}\b/g,
+  // AWS access key ids
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  // Slack tokens
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,
+  // PEM private keys
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+];
+
+/**
+ * Patterns guessing secrets from their context. Not applied to prompts,
+ * where they would mangle code the agent has to work with.
+ */
+const GUESSED_SECRET_PATTERNS = [
+  // Authorization headers
+  /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/gi,
+  // Assignments such as API_KEY=... in .env files and shell output; only
+  // uppercase names, so code like "const token = getToken()" is kept
+  /\b[A-Z0-9_]*(?:API_?KEY|SECRET|TOKEN|PASSWORD|PASSWD)[A-Z0-9_]*\s*[=:]\s*["']?(?<secret>[^\s"']{8,})/g,
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Redactor holding the known secret values and patterns.
+ */
+class Redactor {
+  private secrets: Set<string> = new Set();
+  private patterns: RegExp[] | null = null;
+  private secretsPattern: RegExp | null = null;
+
+  /**
+   * Add a secret value to redact, e.g. an OAuth token once it is loaded.
+   */
+  addSecret(value: string | undefined): void {
+    if (
+      value &&
+      value.length >= MIN_SECRET_LENGTH &&
+      !this.secrets.has(value)
+    ) {
+      this.secrets.add(value);
+      this.secretsPattern = null;
+    }
+  }
+
+  /**
+   * Replace every secret in a text with a placeholder. Without guessing,
+   * only known values, known formats and configured patterns are redacted.
+   */
+  redact(text: string, guess = true): string {
+    this.load();
+
+    let redacted = text;
+    if (this.secretsPattern) {
+      redacted = redacted.replace(this.secretsPattern, REDACTED);
+    }
+    const patterns = guess
+      ? [...this.patterns!, ...GUESSED_SECRET_PATTERNS]
+      : this.patterns!;
+    for (const pattern of patterns) {
+      redacted = redacted.replace(pattern, (match, ...args) => {
+        const groups = args[args.length - 1] as
+          | Record<string, string | undefined>
+          | undefined;
+        const secret =
+          groups && typeof groups === "object" ? groups.secret : undefined;
+        return secret ? match.replace(secret, REDACTED) : REDACTED;
+      });
+    }
+    return redacted;
+  }
+
+  /**
+   * Build the patterns from the configuration on first use, and the known
+   * values pattern whenever secrets were added.
+   */
+  private load(): void {
+    if (!this.patterns) {
+      this.patterns = [...SECRET_FORMATS];
+
+      let envVars = [...SECRET_ENV_VARS];
+      try {
+        const config = getBotConfig();
+        const sections = [
+          config.redaction,
+          ...(config.repositories ?? []).map((repo) => repo.redaction),
+        ];
+        for (const section of sections) {
+          envVars = envVars.concat(section?.envVars ?? []);
+          for (const pattern of section?.patterns ?? []) {
+            this.patterns.push(new RegExp(pattern, "g"));
+          }
+        }
+      } catch {
+        // An invalid configuration is reported at startup; the built-in
+        // rules still apply
+      }
+
+      for (const [name, value] of Object.entries(process.env)) {
+        if (envVars.includes(name) || SECRET_ENV_NAME.test(name)) {
+          this.addSecret(value);
+        }
+      }
+    }
+
+    if (!this.secretsPattern && this.secrets.size > 0) {
+      // Longest first so a secret containing another is redacted whole
+      const values = [...this.secrets].sort((a, b) => b.length - a.length);
+      this.secretsPattern = new RegExp(
+        values.map(escapeRegExp).join("|"),
+        "g"
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const redactor = new Redactor();
+
+/**
+ * Redact secrets from a text.
+ */
+export function redact(text: string): string {
+  return redactor.redact(text);
+}
+
+/**
+ * Redact secrets from a prompt for the agent, without guessing.
+ */
+export function redactPrompt(text: string): string {
+  return redactor.redact(text, false);
+}
+
+/**
+ * Redact secrets from everything written through the console.
+ */
+export function installConsoleRedaction(): void {
+  const write = console.log.bind(console);
+  for (const method of ["log", "info", "warn", "error", "debug"] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      original(redact(util.format(...args)));
+    };
+  }
+
+  console.dir = (item: unknown, options?: util.InspectOptions) => {
+    write(redact(util.inspect(item, options)));
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Command Sandbox for everything run in a worktree: environment setup,
+ * verification and the agent's Bash commands. Commands get a scrubbed
+ * environment with only allowlisted variables, a dedicated HOME, cache and
+ * temporary directory per session, a CPU time limit, and optionally a
+ * memory limit and no network access. Settings come from the "sandbox" section of
+ * the bot configuration, globally and per repository.
+ */
+
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "node:url";
+import { getBotConfig, type RepositoryTarget } from "../config/index.js";
+
+const SANDBOX_DIR = ".sandbox";
+
+// Get the project root directory based on this file's location (src/lib/sandbox/commandSandbox.ts -> project root)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+
+// Environment variables commands always get from the bot's environment
+const DEFAULT_ENV_ALLOWLIST = [
+  "PATH",
+  "LANG",
+  "LC_ALL",
+  "LC_CTYPE",
+  "TERM",
+  "TZ",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "GIT_AUTHOR_NAME",
+  "GIT_AUTHOR_EMAIL",
+  "GIT_COMMITTER_NAME",
+  "GIT_COMMITTER_EMAIL",
+  "GOROOT",
+  "GOPATH",
+  "CARGO_HOME",
+  "RUSTUP_HOME",
+  "PYENV_ROOT",
+];
+
+// Variables the agent process needs on top of the sandbox environment to
+// reach the Claude API
+const AGENT_ENV_PREFIXES = ["ANTHROPIC_", "CLAUDE_"];
+const AGENT_ENV_VARS = ["HTTP_PROXY", "HTTPS_PROXY", "NO_PROXY"];
+
+// Toolchains installed in the user's home, found through these variables
+// when they are unset
+const TOOLCHAIN_DIRS: Record<string, string> = {
+  RUSTUP_HOME: ".rustup",
+  PYENV_ROOT: ".pyenv",
+};
+
+/**
+ * The environment and limits for the commands of one session.
+ */
+export interface CommandSandbox {
+  /** Scrubbed environment for commands */
+  env: Record<string, string>;
+  /** Dedicated HOME directory of the session */
+  home: string;
+  /**
+   * Wrap a shell command so it runs with only the sandbox environment and
+   * any extra variables, within the resource limits and, if configured,
+   * without network access.
+   */
+  wrap(command: string, envVars?: Record<string, string>): string;
+}
+
+/**
+ * Quote a value for a POSIX shell.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Get the directory of a named sandbox.
+ */
+function getSandboxRoot(name: string): string {
+  return path.resolve(PROJECT_ROOT, SANDBOX_DIR, name);
+}
+
+/**
+ * Get the name of the sandbox of a ticket worktree. Every session working in
+ * the worktree shares it, and it is removed along with the worktree.
+ */
+export function getWorktreeSandboxName(
+  repoName: string,
+  branchName: string
+): string {
+  return path.join("worktrees", repoName, branchName);
+}
+
+/**
+ * Get the name of the sandbox of a session without a ticket worktree.
+ */
+export function getSessionSandboxName(sessionId: string): string {
+  return path.join("sessions", sessionId);
+}
+
+/**
+ * Write a git config holding only the bot's git identity, for commits made
+ * by the agent. The rest of the bot's config may hold credential helpers or
+ * URLs with tokens.
+ */
+function writeGitIdentity(configPath: string): void {
+  fs.writeFileSync(configPath, "");
+  for (const key of ["user.name", "user.email"]) {
+    try {
+      const value = execFileSync("git", ["config", "--global", "--get", key], {
+        encoding: "utf-8",
+      }).trim();
+      if (value) {
+        execFileSync("git", ["config", "--file", configPath, key, value]);
+      }
+    } catch {
+      // Not set in the bot's git config
+    }
+  }
+}
+
+/**
+ * Create a sandbox for commands. Its directories are kept across runs, so
+ * follow-ups reuse its caches until it is removed.
+ */
+export function createCommandSandbox(options: {
+  /** From getWorktreeSandboxName or getSessionSandboxName */
+  name: string;
+  repository?: RepositoryTarget;
+  /** Extra environment variables to set */
+  envVars?: Record<string, string>;
+}): CommandSandbox {
+  const { name, repository, envVars = {} } = options;
+  const global = getBotConfig().sandbox;
+  const local = repository?.sandbox ?? {};
+  const cpuSeconds = local.cpuSeconds ?? global.cpuSeconds;
+  const memoryMb = local.memoryMb ?? global.memoryMb;
+  const noNetwork = local.noNetwork ?? global.noNetwork;
+
+  const root = getSandboxRoot(name);
+  const home = path.join(root, "home");
+  const cache = path.join(root, "cache");
+  const tmp = path.join(root, "tmp");
+  for (const directory of [home, cache, tmp]) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  writeGitIdentity(path.join(home, ".gitconfig"));
+
+  const allowlist = [
+    ...DEFAULT_ENV_ALLOWLIST,
+    ...global.envAllowlist,
+    ...(local.envAllowlist ?? []),
+  ];
+  const env: Record<string, string> = {};
+  for (const name of allowlist) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  for (const [name, directory] of Object.entries(TOOLCHAIN_DIRS)) {
+    const toolchain = path.join(os.homedir(), directory);
+    if (env[name] === undefined && fs.existsSync(toolchain)) {
+      env[name] = toolchain;
+    }
+  }
+  Object.assign(env, envVars, {
+    HOME: home,
+    XDG_CACHE_HOME: cache,
+    TMPDIR: tmp,
+  });
+
+  return {
+    env,
+    home,
+    wrap: (command, extraEnvVars = {}) => {
+      const assignments = Object.entries({ ...env, ...extraEnvVars }).map(
+        ([name, value]) => `${name}=${shellQuote(value)}`
+      );
+      const limits = [
+        `ulimit -t ${cpuSeconds}`,
+        ...(memoryMb ? [`ulimit -v ${memoryMb * 1024}`] : []),
+      ].join(" && ");
+      return [
+        "env",
+        "-i",
+        ...assignments,
+        ...(noNetwork ? ["unshare", "--user", "--map-root-user", "--net"] : []),
+        "bash",
+        "-c",
+        shellQuote(`${limits} && ${command}`),
+      ].join(" ");
+    },
+  };
+}
+
+/**
+ * Get the environment for the agent process of a sandbox. Hooks, MCP servers
+ * and tools it starts inherit it, so it is the sandbox environment plus only
+ * what the agent needs itself: the Claude API settings and the bot's HOME,
+ * which holds its Claude login and user settings.
+ */
+export function getAgentEnv(sandbox: CommandSandbox): Record<string, string> {
+  const env: Record<string, string> = { ...sandbox.env, HOME: os.homedir() };
+  for (const [name, value] of Object.entries(process.env)) {
+    if (
+      value !== undefined &&
+      (AGENT_ENV_VARS.includes(name) ||
+        AGENT_ENV_PREFIXES.some((prefix) => name.startsWith(prefix)))
+    ) {
+      env[name] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Remove a sandbox's directories with everything cached in them.
+ */
+export async function removeCommandSandbox(name: string): Promise<void> {
+  try {
+    await fs.promises.rm(getSandboxRoot(name), {
+      recursive: true,
+      force: true,
+    });
+  } catch (error) {
+    console.error(
+      `Failed to remove sandbox ${name}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Conversation Store for resuming Claude conversations on follow-up prompts.
+ * Maps a Linear agent session to the SDK session that last worked on it.
+ */
+
+import type { RepositoryTarget } from "../config/index.js";
+import type { InteractionType } from "./sessionRegistry.js";
+
+export interface ConversationRecord {
+  sessionId: string;
+  ticketId: string;
+  interactionType: Extract<InteractionType, "issue_assignment" | "question">;
+  sdkSessionId: string;
+  worktreePath?: string; // Only set for issue_assignment
+  repository?: RepositoryTarget;
+  updatedAt: Date;
+}
+
+/**
+ * Store for the SDK conversation behind each Linear agent session.
+ */
+class ConversationStore {
+  private conversations: Map<string, ConversationRecord> = new Map();
+  private changeListeners: Array<() => void> = [];
+
+  /**
+   * Subscribe to changes of the stored conversations, e.g. for persistence.
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Save (or replace) the conversation for a session.
+   */
+  save(record: ConversationRecord): void {
+    this.conversations.set(record.sessionId, record);
+    console.log(
+      `Conversation saved: ${record.sessionId} -> ${record.sdkSessionId}`
+    );
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Restore conversations loaded from persistent storage.
+   */
+  restore(records: ConversationRecord[]): void {
+    for (const record of records) {
+      this.conversations.set(record.sessionId, record);
+    }
+  }
+
+  /**
+   * Get the conversation for a session.
+   */
+  get(sessionId: string): ConversationRecord | undefined {
+    return this.conversations.get(sessionId);
+  }
+
+  /**
+   * Check if a session has a conversation to resume.
+   */
+  has(sessionId: string): boolean {
+    return this.conversations.has(sessionId);
+  }
+
+  /**
+   * Get all stored conversations.
+   */
+  getAll(): ConversationRecord[] {
+    return Array.from(this.conversations.values());
+  }
+}
+
+// Export a singleton instance
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,5 @@
+export * from "./sessionRegistry.js";
+export * from "./inputChannel.js";
+export * from "./conversationStore.js";
+export * from "./sessionPersistence.js";
+export * from "./watchdog.js";
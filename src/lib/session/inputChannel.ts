@@ -0,0 +1,109 @@
+/**
+ * Input channel for feeding user messages into a running streaming SDK query.
+ * Messages pushed while the agent is busy are queued until the SDK asks for
+ * the next one. Messages pushed before the run starts, e.g. while the
+ * session is queued, are held until after its initial prompt.
+ */
+
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import { redactPrompt } from "../redaction/index.js";
+
+export interface InputChannel {
+  /** Queue a message for the agent. Returns false if the channel is closed. */
+  push(message: SDKUserMessage): boolean;
+  /** Queue the run's initial prompt ahead of messages pushed before it. */
+  start(message: SDKUserMessage): boolean;
+  /** Close the channel, ending the SDK query once queued messages are read. */
+  close(): void;
+  /** The async iterable handed to the SDK as its prompt. */
+  getIterable(): AsyncIterable<SDKUserMessage>;
+  readonly closed: boolean;
+}
+
+/**
+ * Create an input channel, optionally seeded with initial messages.
+ */
+export function createInputChannel(
+  initialMessages: SDKUserMessage[] = []
+): InputChannel {
+  const queue: SDKUserMessage[] = [...initialMessages];
+  let waiting:
+    | ((result: IteratorResult<SDKUserMessage, undefined>) => void)
+    | null = null;
+  let closed = false;
+
+  const deliver = (message: SDKUserMessage, first: boolean): boolean => {
+    if (closed) {
+      return false;
+    }
+
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve({ value: message, done: false });
+    } else if (first) {
+      queue.unshift(message);
+    } else {
+      queue.push(message);
+    }
+    return true;
+  };
+
+  return {
+    push(message: SDKUserMessage): boolean {
+      return deliver(message, false);
+    },
+
+    start(message: SDKUserMessage): boolean {
+      return deliver(message, true);
+    },
+
+    close(): void {
+      if (closed) {
+        return;
+      }
+
+      closed = true;
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: undefined, done: true });
+      }
+    },
+
+    get closed(): boolean {
+      return closed;
+    },
+
+    getIterable(): AsyncIterable<SDKUserMessage> {
+      return {
+        [Symbol.asyncIterator]: () => ({
+          next: (): Promise<IteratorResult<SDKUserMessage, undefined>> => {
+            const message = queue.shift();
+            if (message) {
+              return Promise.resolve({ value: message, done: false });
+            }
+            if (closed) {
+              return Promise.resolve({ value: undefined, done: true });
+            }
+            return new Promise((resolve) => {
+              waiting = resolve;
+            });
+          },
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Build a plain-text user message for the SDK.
+ */
+export function createUserMessage(text: string): SDKUserMessage {
+  return {
+    type: "user",
+    message: { role: "user", content: redactPrompt(text) },
+    parent_tool_use_id: null,
+    session_id: "",
+  };
+}
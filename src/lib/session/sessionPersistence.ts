@@ -0,0 +1,141 @@
+/**
+ * Session Persistence for surviving restarts.
+ * Snapshots the session registry and conversation store to a local file
+ * whenever they change, so interrupted sessions can be recovered on startup.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "node:url";
+import {
+  conversationStore,
+  type ConversationRecord,
+} from "./conversationStore.js";
+import {
+  sessionRegistry,
+  type ActiveSession,
+  type InteractionType,
+  type SessionState,
+} from "./sessionRegistry.js";
+
+const SESSIONS_DIR = ".sessions";
+const SNAPSHOT_FILE = "sessions.json";
+
+// Get the project root directory based on this file's location (src/lib/session/sessionPersistence.ts -> project root)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+
+/**
+ * A session as stored on disk.
+ */
+export interface PersistedSession {
+  sessionId: string;
+  ticketId: string;
+  organizationId: string;
+  interactionType: InteractionType;
+  state: SessionState;
+  worktreePath?: string;
+  sdkSessionId?: string;
+  startedAt: string;
+}
+
+interface SessionSnapshot {
+  sessions: PersistedSession[];
+  conversations: Array<
+    Omit<ConversationRecord, "updatedAt"> & { updatedAt: string }
+  >;
+}
+
+// Writes are chained so snapshots land on disk in order
+let writeChain: Promise<void> = Promise.resolve();
+
+function getSnapshotPath(): string {
+  return path.resolve(PROJECT_ROOT, SESSIONS_DIR, SNAPSHOT_FILE);
+}
+
+function toPersistedSession(session: ActiveSession): PersistedSession {
+  return {
+    sessionId: session.sessionId,
+    ticketId: session.ticketId,
+    organizationId: session.organizationId,
+    interactionType: session.interactionType,
+    state: session.state,
+    worktreePath: session.worktreePath,
+    sdkSessionId: session.sdkSessionId,
+    startedAt: session.startedAt.toISOString(),
+  };
+}
+
+/**
+ * Write the current sessions and conversations to disk atomically.
+ */
+async function writeSnapshot(): Promise<void> {
+  const snapshot: SessionSnapshot = {
+    sessions: sessionRegistry.getAll().map(toPersistedSession),
+    conversations: conversationStore.getAll().map((record) => ({
+      ...record,
+      updatedAt: record.updatedAt.toISOString(),
+    })),
+  };
+
+  const snapshotPath = getSnapshotPath();
+  await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+  const tempPath = `${snapshotPath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2));
+  await fs.rename(tempPath, snapshotPath);
+}
+
+function schedulePersist(): void {
+  writeChain = writeChain.then(writeSnapshot).catch((error) => {
+    console.error("Failed to persist sessions:", error);
+  });
+}
+
+/**
+ * Read the last snapshot from disk.
+ */
+async function readSnapshot(): Promise<SessionSnapshot> {
+  let storedData: string;
+  try {
+    storedData = await fs.readFile(getSnapshotPath(), "utf-8");
+  } catch {
+    // No snapshot yet
+    return { sessions: [], conversations: [] };
+  }
+
+  try {
+    return JSON.parse(storedData) as SessionSnapshot;
+  } catch {
+    console.warn("Found invalid session snapshot - ignoring it");
+    return { sessions: [], conversations: [] };
+  }
+}
+
+/**
+ * Restore saved conversations, start persisting session changes and return
+ * the sessions that were still active when the process last stopped.
+ */
+export async function initSessionPersistence(): Promise<PersistedSession[]> {
+  const snapshot = await readSnapshot();
+
+  conversationStore.restore(
+    snapshot.conversations.map((record) => ({
+      ...record,
+      updatedAt: new Date(record.updatedAt),
+    }))
+  );
+
+  sessionRegistry.onChange(schedulePersist);
+  conversationStore.onChange(schedulePersist);
+
+  // Interrupted sessions are persisted again only if they are recovered
+  schedulePersist();
+
+  if (snapshot.sessions.length > 0) {
+    console.log(
+      `Found ${snapshot.sessions.length} session(s) interrupted by a restart`
+    );
+  }
+  return snapshot.sessions;
+}
@@ -3,15 +3,41 @@
  * Supports both issue assignment and question interaction types.
  */
 
-export type InteractionType = "issue_assignment" | "question";
+import type { AskUserQuestionInput, UsageSummary } from "../types.js";
+import type { InputChannel } from "./inputChannel.js";
+
+export type InteractionType =
+  | "issue_assignment"
+  | "question"
+  | "user_response"
+  | "follow_up";
+
+export type SessionState = "queued" | "running" | "awaiting_input";
+
+/**
+ * A question the agent asked through AskUserQuestion that awaits an answer.
+ */
+export interface PendingQuestion {
+  toolUseId: string;
+  input: AskUserQuestionInput;
+  askedAt: Date;
+}
 
 export interface ActiveSession {
   sessionId: string;
   ticketId: string;
+  organizationId: string;
   abortController: AbortController;
   worktreePath?: string; // Only set for issue_assignment
   startedAt: Date;
   interactionType: InteractionType;
+  state: SessionState;
+  sdkSessionId?: string; // Set once the agent has started
+  inputChannel: InputChannel;
+  pendingQuestion?: PendingQuestion;
+  timeoutHandle?: NodeJS.Timeout;
+  abortReason?: string; // Set when aborted by the bot rather than a stop signal
+  usage?: UsageSummary; // Usage of the current run, updated after each turn
 }
 
 /**
@@ -19,6 +45,14 @@ export interface ActiveSession {
  */
 class SessionRegistry {
   private sessions: Map<string, ActiveSession> = new Map();
+  private changeListeners: Array<() => void> = [];
+
+  /**
+   * Subscribe to changes of the registered sessions, e.g. for persistence.
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
 
   /**
    * Register a new session.
@@ -28,6 +62,7 @@ class SessionRegistry {
     console.log(
       `Session registered: ${session.sessionId} (${session.interactionType})`
     );
+    this.notifyChange();
   }
 
   /**
@@ -37,13 +72,77 @@ class SessionRegistry {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Update the scheduling state of a session.
+   */
+  setState(sessionId: string, state: SessionState): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.state = state;
+      console.log(`Session ${sessionId} is now ${state}`);
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Record the SDK session id once the agent has started.
+   */
+  setSdkSessionId(sessionId: string, sdkSessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session && session.sdkSessionId !== sdkSessionId) {
+      session.sdkSessionId = sdkSessionId;
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Record the worktree path once it has been created for a session.
+   */
+  setWorktreePath(sessionId: string, worktreePath: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.worktreePath = worktreePath;
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Record the usage of the session's current run.
+   */
+  setUsage(sessionId: string, usage: UsageSummary): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.usage = usage;
+    }
+  }
+
+  /**
+   * Abort a running session. Returns true if a session was found and aborted.
+   * A reason is reported as an error instead of a stop acknowledgment.
+   */
+  abort(sessionId: string, reason?: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    session.abortReason = reason;
+    clearTimeout(session.timeoutHandle);
+    session.inputChannel.close();
+    session.abortController.abort();
+    console.log(`Session aborted: ${sessionId}`);
+    return true;
+  }
+
   /**
    * Remove a session from the registry.
    */
   unregister(sessionId: string): boolean {
+    clearTimeout(this.sessions.get(sessionId)?.timeoutHandle);
     const result = this.sessions.delete(sessionId);
     if (result) {
       console.log(`Session unregistered: ${sessionId}`);
+      this.notifyChange();
     }
     return result;
   }
@@ -68,6 +167,12 @@ class SessionRegistry {
   get size(): number {
     return this.sessions.size;
   }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,101 @@
+/**
+ * Session watchdog enforcing the guardrail limits of an agent run. A run
+ * that takes too many turns, runs too long or stops making progress is
+ * aborted with a reason naming the limit.
+ */
+
+import type { GuardrailLimits } from "../config/index.js";
+import { sessionRegistry } from "./sessionRegistry.js";
+
+// How often the runtime and idle limits are checked
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+export interface SessionWatchdog {
+  /** Record agent progress with the number of turns taken so far. */
+  recordProgress(turns: number): void;
+  /** Run bot work, e.g. verification, without it counting as idle time. */
+  pauseDuring<T>(work: () => Promise<T>): Promise<T>;
+  /** Stop watching, e.g. once the run has finished. */
+  stop(): void;
+}
+
+/**
+ * Start watching a session's run. Time spent waiting for the user to answer
+ * a question counts toward neither the runtime nor the idle limit.
+ */
+export function startWatchdog(
+  sessionId: string,
+  limits: GuardrailLimits
+): SessionWatchdog {
+  const { maxTurns, maxRuntimeMinutes, idleTimeoutMinutes } = limits;
+  let lastCheckAt = Date.now();
+  let lastProgressAt = Date.now();
+  let runtimeMs = 0;
+  let paused = false;
+  let tripped = false;
+
+  const trip = (reason: string) => {
+    if (tripped) {
+      return;
+    }
+    tripped = true;
+    clearInterval(interval);
+    console.log(`Guardrail hit for session ${sessionId}: ${reason}`);
+    sessionRegistry.abort(sessionId, reason);
+  };
+
+  const check = () => {
+    const now = Date.now();
+    const waiting = sessionRegistry.get(sessionId)?.state === "awaiting_input";
+    if (!waiting) {
+      runtimeMs += now - lastCheckAt;
+    }
+    if (waiting || paused) {
+      lastProgressAt = now;
+    }
+    lastCheckAt = now;
+
+    if (
+      maxRuntimeMinutes !== undefined &&
+      runtimeMs >= maxRuntimeMinutes * 60000
+    ) {
+      trip(
+        `The run reached its runtime limit of ${maxRuntimeMinutes} minutes and was stopped.`
+      );
+    } else if (
+      idleTimeoutMinutes !== undefined &&
+      now - lastProgressAt >= idleTimeoutMinutes * 60000
+    ) {
+      trip(
+        `The agent made no progress for ${idleTimeoutMinutes} minutes (idle limit), so the run was stopped.`
+      );
+    }
+  };
+
+  const interval = setInterval(check, CHECK_INTERVAL_MS);
+
+  return {
+    recordProgress(turns: number): void {
+      lastProgressAt = Date.now();
+      if (maxTurns !== undefined && turns > maxTurns) {
+        trip(
+          `The run reached its limit of ${maxTurns} turns and was stopped.`
+        );
+      }
+    },
+
+    async pauseDuring<T>(work: () => Promise<T>): Promise<T> {
+      paused = true;
+      try {
+        return await work();
+      } finally {
+        paused = false;
+        lastProgressAt = Date.now();
+      }
+    },
+
+    stop(): void {
+      clearInterval(interval);
+    },
+  };
+}
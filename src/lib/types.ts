@@ -1,4 +1,5 @@
 import { LinearDocument as L } from "@linear/sdk";
+import type { CommandSandbox } from "./sandbox/index.js";
 
 /**
  * Error thrown when an unreachable case is encountered in an exhaustive switch statement
@@ -25,6 +26,50 @@ export type Content =
   | { type: L.AgentActivityType.Elicitation; body: string }
   | { type: L.AgentActivityType.Error; body: string };
 
+/**
+ * Per-session execution context. Carried through environment setup and agent
+ * execution so concurrent sessions never share process-global state such as
+ * the working directory.
+ */
+export interface ExecutionContext {
+  /** Working directory for the agent and its commands */
+  cwd: string;
+  /** Sandbox for the commands run in the working directory */
+  sandbox: CommandSandbox;
+  /** Base path where repositories are stored */
+  repoBasePath: string;
+  /** Repository name */
+  repoName: string;
+  /** Worktree path, only set for implementation sessions */
+  worktreePath?: string;
+}
+
+/**
+ * Token usage, cost and effort of one or more agent runs.
+ */
+export interface UsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  costUsd: number;
+  turns: number;
+  durationMs: number;
+}
+
+/**
+ * Input of the SDK's AskUserQuestion tool.
+ */
+export interface AskUserQuestionInput {
+  questions: Array<{
+    question: string;
+    header: string;
+    options: Array<{ label: string; description: string }>;
+    multiSelect: boolean;
+  }>;
+  answers?: Record<string, string>;
+}
+
 /**
  * OAuth response from Linear.
  */
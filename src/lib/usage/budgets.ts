@@ -0,0 +1,71 @@
+/**
+ * Budgets limiting what agent runs may spend, per Linear session and per
+ * day (UTC). Configured in the "budgets" section of the bot configuration.
+ */
+
+import { getBotConfig } from "../config/index.js";
+import { formatCost } from "./usage.js";
+import { usageLedger } from "./usageLedger.js";
+
+function startOfToday(): Date {
+  const now = new Date();
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+}
+
+/**
+ * Check whether new work may start for a session. Returns the reason to
+ * refuse it, or null when it is within budget.
+ */
+export function checkBudgets(sessionId: string): string | null {
+  const { perDayUsd } = getBotConfig().budgets;
+
+  if (perDayUsd !== undefined) {
+    const spentToday = usageLedger.getCostSince(startOfToday());
+    if (spentToday >= perDayUsd) {
+      return `The daily budget of ${formatCost(
+        perDayUsd
+      )} has been reached (${formatCost(
+        spentToday
+      )} spent today). New work can start again tomorrow (UTC).`;
+    }
+  }
+
+  return checkSessionBudget(sessionId, 0);
+}
+
+/**
+ * Check a session's spending, including its current run, against the
+ * session budget. Returns the reason to stop it, or null.
+ */
+export function checkSessionBudget(
+  sessionId: string,
+  currentRunCostUsd: number
+): string | null {
+  const { perSessionUsd } = getBotConfig().budgets;
+  if (perSessionUsd === undefined) {
+    return null;
+  }
+
+  const spent = usageLedger.getSessionCost(sessionId) + currentRunCostUsd;
+  if (spent < perSessionUsd) {
+    return null;
+  }
+  return `This session has reached its budget of ${formatCost(
+    perSessionUsd
+  )} (${formatCost(spent)} spent).`;
+}
+
+/**
+ * Get what a session may still spend, or undefined without a session budget.
+ */
+export function getRemainingSessionBudget(
+  sessionId: string
+): number | undefined {
+  const { perSessionUsd } = getBotConfig().budgets;
+  if (perSessionUsd === undefined) {
+    return undefined;
+  }
+  return Math.max(0, perSessionUsd - usageLedger.getSessionCost(sessionId));
+}
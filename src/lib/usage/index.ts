@@ -0,0 +1,3 @@
+export * from "./usage.js";
+export * from "./usageLedger.js";
+export * from "./budgets.js";
@@ -0,0 +1,97 @@
+/**
+ * Usage accounting helpers for the SDK's result messages.
+ */
+
+import type { SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { UsageSummary } from "../types.js";
+
+/**
+ * Usage of nothing, the starting point for sums.
+ */
+export function emptyUsage(): UsageSummary {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    costUsd: 0,
+    turns: 0,
+    durationMs: 0,
+  };
+}
+
+/**
+ * Add two usage summaries.
+ */
+export function addUsage(a: UsageSummary, b: UsageSummary): UsageSummary {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadInputTokens: a.cacheReadInputTokens + b.cacheReadInputTokens,
+    cacheCreationInputTokens:
+      a.cacheCreationInputTokens + b.cacheCreationInputTokens,
+    costUsd: a.costUsd + b.costUsd,
+    turns: a.turns + b.turns,
+    durationMs: a.durationMs + b.durationMs,
+  };
+}
+
+/**
+ * Update the usage of a query with its latest result message. Cost and
+ * per-model token counts are totals for the whole query, while turns and
+ * duration are reported per result.
+ */
+export function updateUsage(
+  previous: UsageSummary | undefined,
+  result: SDKResultMessage
+): UsageSummary {
+  const base = previous ?? emptyUsage();
+  const models = Object.values(result.modelUsage ?? {});
+  const total = (
+    key:
+      | "inputTokens"
+      | "outputTokens"
+      | "cacheReadInputTokens"
+      | "cacheCreationInputTokens"
+  ) =>
+    Math.max(
+      base[key],
+      models.reduce((sum, model) => sum + model[key], 0)
+    );
+
+  return {
+    inputTokens: total("inputTokens"),
+    outputTokens: total("outputTokens"),
+    cacheReadInputTokens: total("cacheReadInputTokens"),
+    cacheCreationInputTokens: total("cacheCreationInputTokens"),
+    costUsd: Math.max(base.costUsd, result.total_cost_usd),
+    turns: base.turns + result.num_turns,
+    durationMs: base.durationMs + result.duration_ms,
+  };
+}
+
+/**
+ * Format a dollar amount, e.g. "$1.23".
+ */
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Format a usage summary as a single Markdown line.
+ */
+export function formatUsage(usage: UsageSummary): string {
+  const tokens = (count: number) => count.toLocaleString("en-US");
+  const minutes = Math.floor(usage.durationMs / 60000);
+  const seconds = Math.round((usage.durationMs % 60000) / 1000);
+  const inputTokens =
+    usage.inputTokens +
+    usage.cacheReadInputTokens +
+    usage.cacheCreationInputTokens;
+
+  return `**Usage:** ${tokens(inputTokens)} input / ${tokens(
+    usage.outputTokens
+  )} output tokens, ${formatCost(usage.costUsd)}, ${usage.turns} ${
+    usage.turns === 1 ? "turn" : "turns"
+  }, ${minutes}m ${seconds}s`;
+}
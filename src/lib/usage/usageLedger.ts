@@ -0,0 +1,160 @@
+/**
+ * Usage Ledger recording the usage of every agent run.
+ * Entries are appended to a JSON Lines file so they survive restarts and
+ * can be aggregated per team and month.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "node:url";
+import type { UsageSummary } from "../types.js";
+import { addUsage, emptyUsage } from "./usage.js";
+
+const USAGE_DIR = ".usage";
+const LEDGER_FILE = "ledger.jsonl";
+
+// Get the project root directory based on this file's location (src/lib/usage/usageLedger.ts -> project root)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const PROJECT_ROOT = path.resolve(__dirname, "../../..");
+
+/**
+ * The usage of one agent run.
+ */
+export interface LedgerEntry {
+  sessionId: string;
+  ticketId: string;
+  /** Linear team key, taken from the ticket identifier (e.g. "ENG") */
+  teamKey: string;
+  interactionType: string;
+  recordedAt: string;
+  usage: UsageSummary;
+}
+
+/**
+ * Usage aggregated for a team in a calendar month.
+ */
+export interface UsageAggregate {
+  teamKey: string;
+  /** Month as "YYYY-MM" (UTC) */
+  month: string;
+  runs: number;
+  usage: UsageSummary;
+}
+
+/**
+ * Get the Linear team key from a ticket identifier like "ENG-123".
+ */
+export function getTeamKey(ticketId: string): string {
+  const match = ticketId.match(/^([A-Za-z0-9]+)-\d+$/);
+  return match ? match[1].toUpperCase() : "unknown";
+}
+
+/**
+ * Ledger of agent run usage, kept in memory and appended to disk.
+ */
+class UsageLedger {
+  private entries: LedgerEntry[] = [];
+  // Appends are chained so entries land on disk in order
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private getLedgerPath(): string {
+    return path.resolve(PROJECT_ROOT, USAGE_DIR, LEDGER_FILE);
+  }
+
+  /**
+   * Load the entries recorded before the last restart.
+   */
+  async load(): Promise<void> {
+    let storedData: string;
+    try {
+      storedData = await fs.readFile(this.getLedgerPath(), "utf-8");
+    } catch {
+      // No ledger yet
+      return;
+    }
+
+    this.entries = [];
+    for (const line of storedData.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        this.entries.push(JSON.parse(line) as LedgerEntry);
+      } catch {
+        console.warn("Skipping invalid usage ledger entry");
+      }
+    }
+    console.log(`Loaded ${this.entries.length} usage ledger entries`);
+  }
+
+  /**
+   * Record the usage of an agent run.
+   */
+  record(entry: Omit<LedgerEntry, "recordedAt" | "teamKey">): void {
+    const ledgerEntry: LedgerEntry = {
+      ...entry,
+      teamKey: getTeamKey(entry.ticketId),
+      recordedAt: new Date().toISOString(),
+    };
+    this.entries.push(ledgerEntry);
+
+    const ledgerPath = this.getLedgerPath();
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+        await fs.appendFile(ledgerPath, `${JSON.stringify(ledgerEntry)}\n`);
+      })
+      .catch((error) => {
+        console.error("Failed to write usage ledger:", error);
+      });
+  }
+
+  /**
+   * Get the total cost recorded for a Linear session.
+   */
+  getSessionCost(sessionId: string): number {
+    return this.entries
+      .filter((entry) => entry.sessionId === sessionId)
+      .reduce((total, entry) => total + entry.usage.costUsd, 0);
+  }
+
+  /**
+   * Get the total cost recorded since a point in time.
+   */
+  getCostSince(since: Date): number {
+    const sinceIso = since.toISOString();
+    return this.entries
+      .filter((entry) => entry.recordedAt >= sinceIso)
+      .reduce((total, entry) => total + entry.usage.costUsd, 0);
+  }
+
+  /**
+   * Aggregate the recorded usage per team and month, newest month first.
+   */
+  aggregate(): UsageAggregate[] {
+    const aggregates = new Map<string, UsageAggregate>();
+
+    for (const entry of this.entries) {
+      const month = entry.recordedAt.slice(0, 7);
+      const key = `${entry.teamKey}:${month}`;
+      const aggregate = aggregates.get(key) ?? {
+        teamKey: entry.teamKey,
+        month,
+        runs: 0,
+        usage: emptyUsage(),
+      };
+      aggregate.runs++;
+      aggregate.usage = addUsage(aggregate.usage, entry.usage);
+      aggregates.set(key, aggregate);
+    }
+
+    return Array.from(aggregates.values()).sort(
+      (a, b) =>
+        b.month.localeCompare(a.month) || a.teamKey.localeCompare(b.teamKey)
+    );
+  }
+}
+
+// Export a singleton instance
+export const usageLedger = new UsageLedger();
@@ -0,0 +1,135 @@
+/**
+ * Base Branch resolution for sessions. A ticket can name its own base branch
+ * with a "base:<branch>" label or a "Base branch: <branch>" line in its
+ * description. Otherwise the configured base branch is used, and without
+ * one the repository's default branch is detected from origin/HEAD or
+ * GitHub.
+ */
+
+import path from "path";
+import { simpleGit } from "simple-git";
+import type { BaseBranchSource, RepositoryTarget } from "../config/index.js";
+import { createGitHubClientFromEnv } from "../github/index.js";
+import { getGitHubRepository } from "./pullRequest.js";
+
+const BASE_BRANCH_LABEL = /^base:\s*(\S+)$/i;
+
+// e.g. "Base branch: release/2.3" or "**Base branch:** `release/2.3`"
+const BASE_BRANCH_LINE =
+  /^[\s>*_-]*base branch[*_]*\s*:[*_]*\s*`?([\w./-]+)`?/im;
+
+const SOURCE_DESCRIPTIONS: Record<BaseBranchSource, string> = {
+  default:
+    "the fallback; the repository's default branch could not be detected",
+  "bot config": "from the bot configuration",
+  "repo config": "from the repository's .coding-bot.json",
+  label: "from the ticket's label",
+  description: "from the ticket description",
+  "origin/HEAD": "the repository's default branch, from origin/HEAD",
+  github: "the repository's default branch, from GitHub",
+};
+
+/**
+ * What is known about a ticket when choosing its base branch.
+ */
+export interface BaseBranchTicket {
+  labels?: string[];
+  description?: string;
+}
+
+/**
+ * Find the base branch a ticket asks for, by label first.
+ */
+export function findTicketBaseBranch(
+  ticket: BaseBranchTicket
+): { branch: string; source: BaseBranchSource } | null {
+  for (const label of ticket.labels ?? []) {
+    const match = label.trim().match(BASE_BRANCH_LABEL);
+    if (match) {
+      return { branch: match[1], source: "label" };
+    }
+  }
+
+  const match = ticket.description?.match(BASE_BRANCH_LINE);
+  return match ? { branch: match[1], source: "description" } : null;
+}
+
+/**
+ * Detect the default branch of a repository checkout: from origin/HEAD,
+ * then from GitHub. Returns null when neither knows it.
+ */
+async function detectDefaultBranch(
+  repoPath: string,
+  github: RepositoryTarget["github"]
+): Promise<{ branch: string; source: BaseBranchSource } | null> {
+  try {
+    const ref = await simpleGit(repoPath).raw([
+      "symbolic-ref",
+      "--short",
+      "refs/remotes/origin/HEAD",
+    ]);
+    const branch = ref.trim().replace(/^origin\//, "");
+    if (branch) {
+      return { branch, source: "origin/HEAD" };
+    }
+  } catch {
+    // origin/HEAD is only set in clones
+  }
+
+  try {
+    const { owner, repo } = github ?? (await getGitHubRepository(repoPath));
+    const client = createGitHubClientFromEnv(owner, repo);
+    if (client) {
+      return { branch: await client.getDefaultBranch(), source: "github" };
+    }
+  } catch (error) {
+    console.error(
+      `Failed to get the default branch from GitHub: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+  return null;
+}
+
+/**
+ * Resolve the base branch of a session. A ticket's own base branch wins,
+ * then the configured one, then the detected default branch. Branches not
+ * detected from the repository must exist on origin.
+ */
+export async function resolveBaseBranch(
+  repository: RepositoryTarget,
+  ticket: BaseBranchTicket = {}
+): Promise<RepositoryTarget> {
+  const repoPath = path.join(repository.repoBasePath, repository.repoName);
+  const resolved =
+    findTicketBaseBranch(ticket) ??
+    (repository.baseBranchSource === "default"
+      ? await detectDefaultBranch(repoPath, repository.github)
+      : null);
+  const baseBranch = resolved?.branch ?? repository.baseBranch;
+  const baseBranchSource = resolved?.source ?? repository.baseBranchSource;
+
+  if (baseBranchSource !== "origin/HEAD" && baseBranchSource !== "github") {
+    const heads = await simpleGit(repoPath).raw([
+      "ls-remote",
+      "--heads",
+      "origin",
+      `refs/heads/${baseBranch}`,
+    ]);
+    if (!heads.trim()) {
+      throw new Error(
+        `The base branch ${baseBranch} (${SOURCE_DESCRIPTIONS[baseBranchSource]}) does not exist on origin.`
+      );
+    }
+  }
+  return { ...repository, baseBranch, baseBranchSource };
+}
+
+/**
+ * Describe a repository's base branch and where it comes from.
+ */
+export function describeBaseBranch(repository: RepositoryTarget): string {
+  const source = repository.baseBranchSource;
+  return `${repository.baseBranch} (${SOURCE_DESCRIPTIONS[source]})`;
+}
@@ -1,7 +1,13 @@
 import { exec } from "child_process";
-import { promisify } from "util";
 import fs from "fs/promises";
 import path from "path";
+import { promisify } from "util";
+import type { CommandSandbox } from "../sandbox/index.js";
+import {
+  detectSetupProviders,
+  getDefaultVerifyCommands,
+  usesCommands,
+} from "./setupProviders.js";
 
 const execAsync = promisify(exec);
 
@@ -13,10 +19,16 @@ export interface EnvSetupOptions {
   cwd: string;
   /** Additional dependencies to install */
   dependencies?: string[];
+  /** Setup commands to run instead of the detected ecosystems' setup */
+  commands?: string[];
+  /** Sandbox to run commands in (defaults to the bot's environment) */
+  sandbox?: CommandSandbox;
   /** Environment variables to set */
   envVars?: Record<string, string>;
   /** Timeout for each command in milliseconds */
   timeout?: number;
+  /** Called as each step completes, e.g. to report progress */
+  onStep?: (step: StepResult) => void;
 }
 
 /**
@@ -32,97 +44,149 @@ export interface EnvSetupResult {
  */
 export interface StepResult {
   name: string;
+  /** The command run, unset for steps that run none */
+  command?: string;
+  /** A type check or build, whose failures are left to the agent to fix */
+  check?: boolean;
   success: boolean;
   output?: string;
   error?: string;
+  durationMs?: number;
 }
 
 /**
- * Set up the development environment in a worktree.
+ * Set up the development environment in a worktree. Every detected
+ * ecosystem is set up in turn: its dependencies are installed, then its
+ * type check or build runs. Setup commands given explicitly replace the
+ * detected setup.
  */
 export async function setupEnvironment(
   options: EnvSetupOptions
 ): Promise<EnvSetupResult> {
-  const { cwd, dependencies = [], timeout = 300000 } = options;
+  const { cwd, dependencies = [], timeout = 300000, sandbox } = options;
   const steps: StepResult[] = [];
   let allSuccessful = true;
 
-  // Step 1: Detect package manager
-  const packageManager = await detectPackageManager(cwd);
-  steps.push({
-    name: "Detect package manager",
-    success: true,
-    output: `Using ${packageManager}`,
-  });
-
-  // Step 2: Install dependencies
-  try {
-    const installCommand = getInstallCommand(packageManager);
-    const { stdout, stderr } = await execAsync(installCommand, {
-      cwd,
-      timeout,
-    });
-    steps.push({
-      name: "Install dependencies",
-      success: true,
-      output: stdout || stderr,
-    });
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    steps.push({
-      name: "Install dependencies",
-      success: false,
-      error: errorMessage,
-    });
-    allSuccessful = false;
-  }
+  const addStep = (step: StepResult) => {
+    steps.push(step);
+    options.onStep?.(step);
+  };
 
-  // Step 3: Install additional dependencies if specified
-  if (dependencies.length > 0 && allSuccessful) {
+  const runStep = async (name: string, command: string, check = false) => {
+    const startedAt = Date.now();
     try {
-      const addCommand = getAddCommand(packageManager, dependencies);
-      const { stdout, stderr } = await execAsync(addCommand, { cwd, timeout });
-      steps.push({
-        name: "Install additional dependencies",
+      const { stdout, stderr } = sandbox
+        ? await execAsync(sandbox.wrap(command, options.envVars), {
+            cwd,
+            env: sandbox.env,
+            timeout,
+          })
+        : await execAsync(command, {
+            cwd,
+            env: { ...process.env, ...options.envVars },
+            timeout,
+          });
+      addStep({
+        name,
+        command,
+        check,
         success: true,
         output: stdout || stderr,
+        durationMs: Date.now() - startedAt,
       });
+      return true;
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      steps.push({
-        name: "Install additional dependencies",
+      const execError = error as { stdout?: string; stderr?: string };
+      // Installers and type checkers often report failures on stdout
+      const output = [execError.stdout, execError.stderr]
+        .filter((stream) => stream && stream.trim())
+        .join("\n");
+      addStep({
+        name,
+        command,
+        check,
         success: false,
-        error: errorMessage,
+        output: output || undefined,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startedAt,
       });
-      allSuccessful = false;
+      return false;
+    }
+  };
+
+  if (options.commands) {
+    for (const command of options.commands) {
+      if (!(await runStep(`Setup: ${command}`, command))) {
+        return { success: false, steps };
+      }
     }
+    return { success: true, steps };
   }
 
-  // Step 4: Run type check if TypeScript project
-  const isTypeScriptProject = await hasTypeScript(cwd);
-  if (isTypeScriptProject && allSuccessful) {
-    try {
-      const typeCheckCommand = getTypeCheckCommand(packageManager);
-      const { stdout, stderr } = await execAsync(typeCheckCommand, {
-        cwd,
-        timeout,
-      });
-      steps.push({
-        name: "Type check",
-        success: true,
-        output: stdout || stderr,
-      });
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      steps.push({
-        name: "Type check",
-        success: false,
-        error: errorMessage,
-      });
-      // Don't fail on type errors - the agent should fix them
+  // Step 1: Detect the project's ecosystems
+  const detected = await detectSetupProviders(cwd);
+  const verifyCommands = getDefaultVerifyCommands(detected);
+  addStep({
+    name: "Detect project setup",
+    success: true,
+    output:
+      detected.length > 0
+        ? [
+            ...detected.map(
+              ({ provider, plan, directory }) =>
+                `Using ${plan.tool} for ${provider.name}${
+                  directory ? ` in ${directory}` : ""
+                }`
+            ),
+            `Default verification: ${verifyCommands.join(", ") || "none"}`,
+          ].join("\n")
+        : "No known project setup found",
+  });
+
+  await excludeFromGit(
+    cwd,
+    detected.flatMap(({ plan }) => plan.excludes ?? [])
+  );
+
+  // Additional dependencies go to the first project that can take them
+  const dependencyTarget = detected.find(({ plan }) => plan.addDependencies);
+
+  for (const setup of detected) {
+    const { provider, plan, directory } = setup;
+    const label = directory
+      ? `${provider.name} in ${directory}`
+      : provider.name;
+
+    // Step 2: Install dependencies
+    let installed = true;
+    for (const command of plan.install) {
+      installed = await runStep(`Install (${label}): ${command}`, command);
+      if (!installed) {
+        allSuccessful = false;
+        break;
+      }
+    }
+
+    // Step 3: Install additional dependencies if specified
+    if (
+      setup === dependencyTarget &&
+      plan.addDependencies &&
+      dependencies.length > 0 &&
+      installed
+    ) {
+      installed = await runStep(
+        `Install additional dependencies (${label})`,
+        plan.addDependencies(dependencies)
+      );
+      allSuccessful &&= installed;
+    }
+
+    // Step 4: Type check or build
+    // Don't fail on errors here - the agent should fix them
+    if (installed && usesCommands(setup, detected, "check")) {
+      for (const command of plan.check) {
+        await runStep(`Check (${label}): ${command}`, command, true);
+      }
     }
   }
 
@@ -133,114 +197,115 @@ export async function setupEnvironment(
 }
 
 /**
- * Detect the package manager used in the project.
+ * Keep paths the setup creates out of commits through the repository's
+ * info/exclude file, which all of its worktrees share.
  */
-async function detectPackageManager(
-  cwd: string
-): Promise<"npm" | "yarn" | "pnpm" | "bun"> {
-  // Check for lock files
-  try {
-    await fs.access(path.join(cwd, "bun.lockb"));
-    return "bun";
-  } catch {}
-
-  try {
-    await fs.access(path.join(cwd, "pnpm-lock.yaml"));
-    return "pnpm";
-  } catch {}
+async function excludeFromGit(cwd: string, paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return;
+  }
 
   try {
-    await fs.access(path.join(cwd, "yarn.lock"));
-    return "yarn";
-  } catch {}
+    const { stdout } = await execAsync(
+      "git rev-parse --git-path info/exclude",
+      { cwd }
+    );
+    const excludePath = path.resolve(cwd, stdout.trim());
+    const content = await fs.readFile(excludePath, "utf-8").catch(() => "");
+    const lines = new Set(content.split("\n"));
+    const missing = paths
+      .map((excluded) => `/${excluded}`)
+      .filter((pattern) => !lines.has(pattern));
+    if (missing.length === 0) {
+      return;
+    }
 
-  // Default to npm
-  return "npm";
+    const separator = content && !content.endsWith("\n") ? "\n" : "";
+    await fs.mkdir(path.dirname(excludePath), { recursive: true });
+    await fs.appendFile(excludePath, `${separator}${missing.join("\n")}\n`);
+  } catch (error) {
+    console.error(
+      `Failed to exclude ${paths.join(", ")} from git: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
 }
 
 /**
- * Check if the project uses TypeScript.
+ * Keep the end of a command's output, where failures are usually reported.
  */
-async function hasTypeScript(cwd: string): Promise<boolean> {
-  try {
-    await fs.access(path.join(cwd, "tsconfig.json"));
-    return true;
-  } catch {
-    return false;
+export function trimOutput(output: string, limit: number): string {
+  const trimmed = output.trim();
+  if (trimmed.length <= limit) {
+    return trimmed;
   }
+  const truncated = trimmed.length - limit;
+  return `... (${truncated} characters truncated)\n${trimmed.slice(-limit)}`;
 }
 
 /**
- * Get the install command for a package manager.
+ * Format the result of a setup step for the Linear session.
  */
-function getInstallCommand(
-  packageManager: "npm" | "yarn" | "pnpm" | "bun"
-): string {
-  switch (packageManager) {
-    case "yarn":
-      return "yarn install";
-    case "pnpm":
-      return "pnpm install";
-    case "bun":
-      return "bun install";
-    default:
-      return "npm install";
+export function formatSetupStep(step: StepResult, outputLimit: number): string {
+  if (!step.command) {
+    return step.output ?? (step.success ? "Done" : "Failed");
   }
-}
 
-/**
- * Get the add command for installing additional dependencies.
- */
-function getAddCommand(
-  packageManager: "npm" | "yarn" | "pnpm" | "bun",
-  dependencies: string[]
-): string {
-  const deps = dependencies.join(" ");
-  switch (packageManager) {
-    case "yarn":
-      return `yarn add ${deps}`;
-    case "pnpm":
-      return `pnpm add ${deps}`;
-    case "bun":
-      return `bun add ${deps}`;
-    default:
-      return `npm install ${deps}`;
+  const seconds = Math.round((step.durationMs ?? 0) / 1000);
+  if (step.success) {
+    return `Passed (${seconds}s)`;
   }
+  const output = trimOutput(step.output ?? step.error ?? "", outputLimit);
+  return `Failed (${seconds}s)\n\n\`\`\`\n${output}\n\`\`\``;
 }
 
 /**
- * Get the type check command.
+ * Format the output of failed setup steps for the agent: failed installs,
+ * or, with checks set, the type check and build errors the worktree had
+ * before any changes. Returns null when there are none.
  */
-function getTypeCheckCommand(
-  packageManager: "npm" | "yarn" | "pnpm" | "bun"
-): string {
-  switch (packageManager) {
-    case "yarn":
-      return "yarn tsc --noEmit";
-    case "pnpm":
-      return "pnpm tsc --noEmit";
-    case "bun":
-      return "bun tsc --noEmit";
-    default:
-      return "npx tsc --noEmit";
+export function formatSetupFailures(
+  result: EnvSetupResult,
+  outputLimit: number,
+  checks: boolean
+): string | null {
+  const failures = result.steps.filter(
+    (step) => !step.success && Boolean(step.check) === checks
+  );
+  if (failures.length === 0) {
+    return null;
   }
+
+  return failures
+    .map((step) => {
+      const output = trimOutput(step.output ?? step.error ?? "", outputLimit);
+      return `### \`${step.command ?? step.name}\`\n\n\`\`\`\n${output}\n\`\`\``;
+    })
+    .join("\n\n");
 }
 
 /**
- * Run a command in the environment.
+ * Run a command in the environment, inside the sandbox if one is given.
  */
 export async function runCommand(
   cwd: string,
   command: string,
-  timeout = 300000
+  timeout = 300000,
+  sandbox?: CommandSandbox
 ): Promise<{ stdout: string; stderr: string }> {
   try {
-    const { stdout, stderr } = await execAsync(command, { cwd, timeout });
+    const { stdout, stderr } = await execAsync(
+      sandbox ? sandbox.wrap(command) : command,
+      { cwd, env: sandbox?.env ?? process.env, timeout }
+    );
     return { stdout, stderr };
   } catch (error) {
     const execError = error as { stdout?: string; stderr?: string };
-    throw new Error(
-      `Command failed: ${command}\n${execError.stderr || execError.stdout || "Unknown error"}`
-    );
+    // Test runners often report failures on stdout and noise on stderr
+    const output = [execError.stdout, execError.stderr]
+      .filter((stream) => stream && stream.trim())
+      .join("\n");
+    throw new Error(`Command failed: ${command}\n${output || "Unknown error"}`);
   }
 }
@@ -0,0 +1,49 @@
+import path from "path";
+import type { RepositoryTarget } from "../config/index.js";
+import {
+  createCommandSandbox,
+  getSessionSandboxName,
+  getWorktreeSandboxName,
+} from "../sandbox/index.js";
+import type { ExecutionContext } from "../types.js";
+
+/**
+ * Create the execution context for a session.
+ * Commands run in a sandbox, so they never see the bot's secrets or
+ * process-global state. Sessions in a ticket worktree share its sandbox;
+ * others get their own.
+ */
+export function createExecutionContext(options: {
+  cwd: string;
+  repoBasePath: string;
+  repoName: string;
+  /** Session the sandbox belongs to when there is no worktree */
+  sessionId: string;
+  repository?: RepositoryTarget;
+  worktreePath?: string;
+  envVars?: Record<string, string>;
+}): ExecutionContext {
+  const { cwd, repoBasePath, repoName, worktreePath } = options;
+
+  return {
+    cwd,
+    sandbox: createCommandSandbox({
+      name: worktreePath
+        ? getWorktreeSandboxName(
+            repoName,
+            // The branch name, which may contain slashes
+            path.relative(
+              path.join(repoBasePath, ".worktrees", repoName),
+              worktreePath
+            )
+          )
+        : getSessionSandboxName(options.sessionId),
+      repository: options.repository,
+      envVars: options.envVars,
+    }),
+    repoBasePath,
+    repoName,
+    worktreePath,
+  };
+}
+
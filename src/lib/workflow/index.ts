@@ -1,3 +1,9 @@
 export * from "./ticketHandler.js";
 export * from "./worktreeLifecycle.js";
+export * from "./baseBranch.js";
 export * from "./envSetup.js";
+export * from "./setupProviders.js";
+export * from "./executionContext.js";
+export * from "./pullRequest.js";
+export * from "./planConformance.js";
+export * from "./verification.js";
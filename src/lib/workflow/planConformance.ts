@@ -0,0 +1,158 @@
+import type { FileChange, ImplementationPlan } from "../types.js";
+import type { ChangedFile } from "./worktreeLifecycle.js";
+
+/**
+ * How the changes in a worktree compare with the files in the plan.
+ */
+export interface ConformanceReport {
+  /** Planned files changed the way the plan said */
+  matched: FileChange[];
+  /** Planned files that were not touched */
+  missing: FileChange[];
+  /** Planned files changed in a different way, e.g. modified instead of deleted */
+  wrongAction: Array<{ planned: FileChange; actual: ChangedFile["status"] }>;
+  /** Changed files the plan does not mention */
+  unexpected: ChangedFile[];
+}
+
+/**
+ * Normalize a path for comparison, e.g. "./src/a.ts" and "src/a.ts".
+ */
+function normalizePath(filePath: string): string {
+  return filePath.trim().replace(/^\.?\//, "").replace(/\\/g, "/");
+}
+
+/**
+ * The action a changed file amounts to for a planned path. Renames delete
+ * the old path and create the new one.
+ */
+function actualAction(
+  change: ChangedFile,
+  filePath: string
+): FileChange["action"] {
+  if (change.status === "renamed") {
+    return normalizePath(change.previousPath ?? "") === filePath
+      ? "delete"
+      : "create";
+  }
+
+  const actions: Record<ChangedFile["status"], FileChange["action"]> = {
+    added: "create",
+    modified: "modify",
+    deleted: "delete",
+    renamed: "create",
+  };
+  return actions[change.status];
+}
+
+/**
+ * Compare the changed files of a worktree with the files in the plan.
+ */
+export function checkPlanConformance(
+  plan: ImplementationPlan,
+  changes: ChangedFile[]
+): ConformanceReport {
+  const report: ConformanceReport = {
+    matched: [],
+    missing: [],
+    wrongAction: [],
+    unexpected: [],
+  };
+
+  const changesByPath = new Map<string, ChangedFile>();
+  for (const change of changes) {
+    changesByPath.set(normalizePath(change.path), change);
+    if (change.previousPath) {
+      changesByPath.set(normalizePath(change.previousPath), change);
+    }
+  }
+
+  const plannedPaths = new Set<string>();
+  for (const planned of plan.files) {
+    const filePath = normalizePath(planned.path);
+    plannedPaths.add(filePath);
+
+    const change = changesByPath.get(filePath);
+    if (!change) {
+      report.missing.push(planned);
+      continue;
+    }
+
+    const action = actualAction(change, filePath);
+    // Rewriting a file the plan creates still counts as creating it
+    if (
+      action === planned.action ||
+      (planned.action === "create" && action === "modify")
+    ) {
+      report.matched.push(planned);
+    } else {
+      report.wrongAction.push({ planned, actual: change.status });
+    }
+  }
+
+  report.unexpected = changes.filter(
+    (change) =>
+      !plannedPaths.has(normalizePath(change.path)) &&
+      !(
+        change.previousPath &&
+        plannedPaths.has(normalizePath(change.previousPath))
+      )
+  );
+
+  return report;
+}
+
+/**
+ * Check whether the changes deviate significantly from the plan: a planned
+ * file was skipped or changed the wrong way, or too many unplanned files
+ * were touched.
+ */
+export function isSignificantDeviation(
+  report: ConformanceReport,
+  maxUnexpectedFiles: number
+): boolean {
+  return (
+    report.missing.length > 0 ||
+    report.wrongAction.length > 0 ||
+    report.unexpected.length > maxUnexpectedFiles
+  );
+}
+
+/**
+ * Format a conformance report as Markdown for the Linear session.
+ */
+export function formatConformanceReport(report: ConformanceReport): string {
+  const planned =
+    report.matched.length + report.missing.length + report.wrongAction.length;
+  let summary = `**Plan conformance:** ${report.matched.length} of ${planned} planned files changed as planned`;
+
+  if (
+    report.missing.length === 0 &&
+    report.wrongAction.length === 0 &&
+    report.unexpected.length === 0
+  ) {
+    return `${summary}, no unplanned changes.`;
+  }
+  summary += ".\n";
+
+  if (report.missing.length > 0) {
+    summary += `\nMissing:\n${report.missing
+      .map((file) => `- ${file.action} \`${file.path}\``)
+      .join("\n")}\n`;
+  }
+  if (report.wrongAction.length > 0) {
+    summary += `\nWrong action:\n${report.wrongAction
+      .map(
+        ({ planned, actual }) =>
+          `- \`${planned.path}\`: planned ${planned.action}, was ${actual}`
+      )
+      .join("\n")}\n`;
+  }
+  if (report.unexpected.length > 0) {
+    summary += `\nNot in the plan:\n${report.unexpected
+      .map((file) => `- ${file.status} \`${file.path}\``)
+      .join("\n")}\n`;
+  }
+
+  return summary.trim();
+}
@@ -0,0 +1,142 @@
+import {
+  createGitHubClientFromEnv,
+  generatePRBody,
+  parseGitHubRemote,
+  type PRResult,
+} from "../github/index.js";
+import { redact } from "../redaction/index.js";
+import {
+  commitAndPush,
+  countCommitsAhead,
+  getChangedFiles,
+  getRemoteUrl,
+  getWorktreeStatus,
+  pushBranch,
+} from "./worktreeLifecycle.js";
+
+/**
+ * Options for publishing the work in a ticket worktree as a pull request.
+ */
+export interface PublishOptions {
+  worktreePath: string;
+  branchName: string;
+  baseBranch: string;
+  /** GitHub repository; read from the origin remote when unset */
+  github?: { owner: string; repo: string };
+  /** Defaults for a newly opened pull request */
+  pullRequest?: {
+    draft: boolean;
+    labels: string[];
+    /** GitHub users to request a review from */
+    reviewers: string[];
+  };
+  ticket: {
+    identifier: string;
+    title: string;
+    url?: string;
+  };
+  /** The agent's final result, used as the PR summary */
+  summary: string;
+}
+
+/**
+ * Result of publishing a ticket worktree.
+ */
+export interface PublishResult {
+  /** The open pull request, or null if the branch has no changes */
+  pullRequest: PRResult | null;
+  /** Whether the pull request was opened by this publish */
+  created: boolean;
+}
+
+/**
+ * Resolve the GitHub owner and repository of a checkout from its origin remote.
+ */
+export async function getGitHubRepository(
+  repoPath: string
+): Promise<{ owner: string; repo: string }> {
+  const remoteUrl = await getRemoteUrl(repoPath);
+  const repository = parseGitHubRemote(remoteUrl);
+  if (!repository) {
+    throw new Error(
+      `Cannot determine the GitHub repository from remote: ${
+        remoteUrl || "(no origin remote)"
+      }`
+    );
+  }
+  return repository;
+}
+
+/**
+ * Commit and push the work in a ticket worktree, then open a pull request
+ * for the branch, or update the one that is already open.
+ */
+export async function publishPullRequest(
+  options: PublishOptions
+): Promise<PublishResult> {
+  const { worktreePath, branchName, baseBranch, ticket, summary } = options;
+
+  const { owner, repo } =
+    options.github ?? (await getGitHubRepository(worktreePath));
+  const github = createGitHubClientFromEnv(owner, repo);
+  if (!github) {
+    throw new Error("GITHUB_TOKEN is not set - cannot open a pull request");
+  }
+
+  const title = redact(`${ticket.identifier}: ${ticket.title}`);
+
+  // The agent may already have committed its work itself
+  const status = await getWorktreeStatus(worktreePath);
+  if (!status.isClean) {
+    await commitAndPush(worktreePath, title);
+  } else if ((await countCommitsAhead(worktreePath, baseBranch)) > 0) {
+    await pushBranch(worktreePath, branchName);
+  } else {
+    console.log(`No changes to publish on branch: ${branchName}`);
+    return { pullRequest: null, created: false };
+  }
+
+  const changedFiles = await getChangedFiles(worktreePath, baseBranch);
+  const body = redact(
+    generatePRBody({
+      ticketUrl: ticket.url,
+      ticketTitle: title,
+      summary,
+      changes: changedFiles.map((file) => `\`${file.path}\` (${file.status})`),
+    })
+  );
+
+  const existing = await github.findPullRequestByBranch(branchName);
+  if (existing) {
+    const pullRequest = await github.updatePullRequest(existing.number, {
+      body,
+    });
+    console.log(`Updated PR #${pullRequest.number}: ${pullRequest.url}`);
+    return { pullRequest, created: false };
+  }
+
+  const defaults = options.pullRequest;
+  const pullRequest = await github.createPullRequest({
+    title,
+    body,
+    head: branchName,
+    base: baseBranch,
+    draft: defaults?.draft,
+    labels: defaults?.labels,
+  });
+  console.log(`Created PR #${pullRequest.number}: ${pullRequest.url}`);
+
+  if (defaults && defaults.reviewers.length > 0) {
+    try {
+      await github.requestReview(pullRequest.number, defaults.reviewers);
+    } catch (error) {
+      // The pull request is open either way
+      console.error(
+        `Failed to request reviews on PR #${pullRequest.number}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+  return { pullRequest, created: true };
+}
@@ -0,0 +1,393 @@
+/**
+ * Setup Providers detecting the ecosystems a project uses and how to set
+ * each of them up: Node.js, Python, Go, Rust and Makefile-based projects.
+ * Every matching provider runs, so monorepos with several ecosystems are
+ * set up completely. Ecosystems not used at the repository root are also
+ * looked for in subdirectories, e.g. services/api/go.mod.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+
+// The placeholder test script written by "npm init"
+const NPM_INIT_TEST_SCRIPT = 'echo "Error: no test specified" && exit 1';
+
+// How deep subdirectories are searched for projects, e.g. services/api
+const MAX_PROJECT_DEPTH = 2;
+
+// Directories that hold dependencies or build output, not projects
+const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  "vendor",
+  "target",
+  "dist",
+  "build",
+  "venv",
+  "__pycache__",
+]);
+
+/**
+ * How to set up one ecosystem of a project.
+ */
+export interface SetupPlan {
+  /** The tool used, e.g. "pnpm" or "uv" */
+  tool: string;
+  /** Commands installing dependencies; a failure fails the setup */
+  install: string[];
+  /** Type check or build commands; failures are left to the agent to fix */
+  check: string[];
+  /** Default build and test commands for verification */
+  verify: string[];
+  /** Build the command adding extra dependencies, where supported */
+  addDependencies?: (dependencies: string[]) => string;
+  /** Paths the setup creates that must never be committed */
+  excludes?: string[];
+}
+
+/**
+ * Detects an ecosystem and plans its setup.
+ */
+export interface SetupProvider {
+  name: string;
+  /**
+   * Check and verification commands of fallback providers are used only
+   * when no other provider has any, e.g. Makefiles wrapping a language's
+   * tooling.
+   */
+  fallback?: boolean;
+  /** Plan the setup, or return null when the project doesn't use it */
+  detect(cwd: string): Promise<SetupPlan | null>;
+}
+
+/**
+ * A provider that matched a project, with its plan.
+ */
+export interface DetectedSetup {
+  provider: SetupProvider;
+  /** Commands run in the project's directory */
+  plan: SetupPlan;
+  /** The project's directory relative to the repository root, "" for it */
+  directory: string;
+}
+
+async function exists(cwd: string, file: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(cwd, file));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readText(cwd: string, file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(cwd, file), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect the package manager used in the project.
+ */
+export async function detectPackageManager(
+  cwd: string
+): Promise<"npm" | "yarn" | "pnpm" | "bun"> {
+  // Check for lock files
+  if (await exists(cwd, "bun.lockb")) {
+    return "bun";
+  }
+  if (await exists(cwd, "pnpm-lock.yaml")) {
+    return "pnpm";
+  }
+  if (await exists(cwd, "yarn.lock")) {
+    return "yarn";
+  }
+
+  // Default to npm
+  return "npm";
+}
+
+const nodeProvider: SetupProvider = {
+  name: "Node.js",
+  detect: async (cwd) => {
+    const packageJson = await readText(cwd, "package.json");
+    if (packageJson === null) {
+      return null;
+    }
+
+    let scripts: Record<string, string> = {};
+    try {
+      scripts = JSON.parse(packageJson).scripts ?? {};
+    } catch {
+      // An unreadable package.json still gets its dependencies installed
+    }
+
+    const packageManager = await detectPackageManager(cwd);
+    const exec = packageManager === "npm" ? "npx" : packageManager;
+    const verify: string[] = [];
+    if (scripts.build) {
+      verify.push(`${packageManager} run build`);
+    }
+    if (scripts.test && scripts.test !== NPM_INIT_TEST_SCRIPT) {
+      verify.push(`${packageManager} run test`);
+    }
+
+    return {
+      tool: packageManager,
+      install: [`${packageManager} install`],
+      check: (await exists(cwd, "tsconfig.json"))
+        ? [`${exec} tsc --noEmit`]
+        : [],
+      verify,
+      addDependencies: (dependencies) => {
+        const add = packageManager === "npm" ? "install" : "add";
+        return `${packageManager} ${add} ${dependencies.join(" ")}`;
+      },
+    };
+  },
+};
+
+const pythonProvider: SetupProvider = {
+  name: "Python",
+  detect: async (cwd) => {
+    const pyproject = await readText(cwd, "pyproject.toml");
+    const hasRequirements = await exists(cwd, "requirements.txt");
+    const hasSetupPy = await exists(cwd, "setup.py");
+    if (pyproject === null && !hasRequirements && !hasSetupPy) {
+      return null;
+    }
+
+    const usesMypy =
+      pyproject?.includes("[tool.mypy]") ||
+      (await exists(cwd, "mypy.ini")) ||
+      (await exists(cwd, ".mypy.ini"));
+    const usesPytest =
+      pyproject?.includes("[tool.pytest") ||
+      (await exists(cwd, "pytest.ini")) ||
+      (await exists(cwd, "conftest.py")) ||
+      (await exists(cwd, "tests"));
+
+    let tool: string;
+    let run: string;
+    let install: string[];
+    if ((await exists(cwd, "uv.lock")) || pyproject?.includes("[tool.uv")) {
+      tool = "uv";
+      run = "uv run";
+      install = ["uv sync"];
+    } else if (
+      (await exists(cwd, "poetry.lock")) ||
+      pyproject?.includes("[tool.poetry")
+    ) {
+      tool = "poetry";
+      run = "poetry run";
+      install = ["poetry install"];
+    } else {
+      tool = "pip";
+      run = ".venv/bin/python -m";
+      install = [
+        "python3 -m venv .venv",
+        hasRequirements
+          ? ".venv/bin/pip install -r requirements.txt"
+          : ".venv/bin/pip install -e .",
+      ];
+    }
+
+    return {
+      tool,
+      install,
+      check: usesMypy ? [`${run} mypy .`] : [],
+      verify: usesPytest ? [`${run} pytest`] : [],
+      excludes: tool === "pip" ? [".venv/"] : [],
+    };
+  },
+};
+
+const goProvider: SetupProvider = {
+  name: "Go",
+  detect: async (cwd) =>
+    (await exists(cwd, "go.mod"))
+      ? {
+          tool: "go",
+          install: ["go mod download"],
+          check: ["go build ./...", "go vet ./..."],
+          verify: ["go build ./...", "go test ./..."],
+        }
+      : null,
+};
+
+const rustProvider: SetupProvider = {
+  name: "Rust",
+  detect: async (cwd) =>
+    (await exists(cwd, "Cargo.toml"))
+      ? {
+          tool: "cargo",
+          install: ["cargo fetch"],
+          check: ["cargo check"],
+          verify: ["cargo build", "cargo test"],
+        }
+      : null,
+};
+
+const makeProvider: SetupProvider = {
+  name: "Make",
+  fallback: true,
+  detect: async (cwd) => {
+    let makefile: string | null = null;
+    for (const name of ["GNUmakefile", "makefile", "Makefile"]) {
+      makefile ??= await readText(cwd, name);
+    }
+    if (makefile === null) {
+      return null;
+    }
+
+    const targets = new Set(
+      [...makefile.matchAll(/^([A-Za-z0-9_.-]+)\s*:(?!=)/gm)].map(
+        (match) => match[1]
+      )
+    );
+    // "install" usually installs the project itself, not its dependencies
+    const installTarget = ["deps", "setup", "bootstrap"].find((target) =>
+      targets.has(target)
+    );
+
+    return {
+      tool: "make",
+      install: installTarget ? [`make ${installTarget}`] : [],
+      check: targets.has("build") ? ["make build"] : [],
+      verify: ["build", "test"]
+        .filter((target) => targets.has(target))
+        .map((target) => `make ${target}`),
+    };
+  },
+};
+
+const providers: SetupProvider[] = [
+  nodeProvider,
+  pythonProvider,
+  goProvider,
+  rustProvider,
+  makeProvider,
+];
+
+/**
+ * Find the directories below the repository root that may hold projects,
+ * shallowest first.
+ */
+async function findProjectDirectories(cwd: string): Promise<string[]> {
+  const directories: string[] = [];
+  let level = [""];
+  for (let depth = 1; depth <= MAX_PROJECT_DEPTH; depth++) {
+    const next: string[] = [];
+    for (const parent of level) {
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(cwd, parent), {
+          withFileTypes: true,
+        });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        if (
+          entry.isDirectory() &&
+          !entry.name.startsWith(".") &&
+          !IGNORED_DIRECTORIES.has(entry.name)
+        ) {
+          next.push(path.join(parent, entry.name));
+        }
+      }
+    }
+    directories.push(...next.sort());
+    level = next;
+  }
+  return directories;
+}
+
+/**
+ * Move a project's plan to its directory: commands change into it first, and
+ * excluded paths are made relative to the repository root.
+ */
+function inDirectory(plan: SetupPlan, directory: string): SetupPlan {
+  const cd = (command: string) =>
+    `cd '${directory.replace(/'/g, `'\\''`)}' && ${command}`;
+  const { addDependencies } = plan;
+  return {
+    tool: plan.tool,
+    install: plan.install.map(cd),
+    check: plan.check.map(cd),
+    verify: plan.verify.map(cd),
+    addDependencies:
+      addDependencies && ((dependencies) => cd(addDependencies(dependencies))),
+    excludes: plan.excludes?.map((exclude) => path.join(directory, exclude)),
+  };
+}
+
+/**
+ * Detect every ecosystem a repository uses, in provider order: at the root,
+ * then, for ecosystems not used there, in subdirectories. A project's own
+ * subdirectories are left to it, as are those of a root project, which
+ * usually manages them as workspaces. Fallback providers only look at the
+ * root.
+ */
+export async function detectSetupProviders(
+  cwd: string
+): Promise<DetectedSetup[]> {
+  const detected: DetectedSetup[] = [];
+  for (const provider of providers) {
+    const plan = await provider.detect(cwd);
+    if (plan) {
+      detected.push({ provider, plan, directory: "" });
+    }
+  }
+
+  const directories = await findProjectDirectories(cwd);
+  for (const provider of providers) {
+    if (provider.fallback || detected.some((d) => d.provider === provider)) {
+      continue;
+    }
+
+    const found: string[] = [];
+    for (const directory of directories) {
+      if (found.some((parent) => directory.startsWith(`${parent}/`))) {
+        continue;
+      }
+      const plan = await provider.detect(path.join(cwd, directory));
+      if (plan) {
+        found.push(directory);
+        detected.push({
+          provider,
+          plan: inDirectory(plan, directory),
+          directory,
+        });
+      }
+    }
+  }
+  return detected;
+}
+
+/**
+ * Check whether a detected setup's commands of one kind are used: those of
+ * fallback providers only when no other provider has any.
+ */
+export function usesCommands(
+  setup: DetectedSetup,
+  detected: DetectedSetup[],
+  kind: "check" | "verify"
+): boolean {
+  return (
+    !setup.provider.fallback ||
+    detected.every(
+      ({ provider, plan }) => provider.fallback || plan[kind].length === 0
+    )
+  );
+}
+
+/**
+ * Get the default build and test commands of the detected ecosystems.
+ */
+export function getDefaultVerifyCommands(detected: DetectedSetup[]): string[] {
+  return detected
+    .filter((setup) => usesCommands(setup, detected, "verify"))
+    .flatMap(({ plan }) => plan.verify);
+}
@@ -11,19 +11,13 @@ export async function extractImplementationPlan(
 ): Promise<ImplementationPlan | null> {
   try {
     const issue = await linearClient.issue(issueId);
-    const description = issue.description || "";
+    const { planContent } = splitImplementationPlan(issue.description || "");
 
-    // Look for implementation plan section in the description
-    const planMatch = description.match(
-      /## Implementation Plan\s*([\s\S]*?)(?=##|$)/i
-    );
-
-    if (!planMatch) {
+    if (planContent === null) {
       console.log("No implementation plan found in ticket description");
       return null;
     }
 
-    const planContent = planMatch[1].trim();
     return parseImplementationPlan(planContent);
   } catch (error) {
     console.error("Error extracting implementation plan:", error);
@@ -31,10 +25,36 @@ export async function extractImplementationPlan(
   }
 }
 
+/**
+ * Split the "## Implementation Plan" section out of a ticket description.
+ * The section runs until the next level-two heading; its "###" subsections
+ * belong to it. Returns a null plan when the section is missing.
+ */
+export function splitImplementationPlan(description: string): {
+  description: string;
+  planContent: string | null;
+} {
+  const planMatch = description.match(
+    /^##[ \t]+Implementation Plan[ \t]*$([\s\S]*?)(?=^##[ \t]|(?![\s\S]))/im
+  );
+
+  if (!planMatch || planMatch.index === undefined) {
+    return { description, planContent: null };
+  }
+
+  return {
+    description: (
+      description.slice(0, planMatch.index) +
+      description.slice(planMatch.index + planMatch[0].length)
+    ).trim(),
+    planContent: planMatch[1].trim(),
+  };
+}
+
 /**
  * Parse the implementation plan content into structured format.
  */
-function parseImplementationPlan(content: string): ImplementationPlan {
+export function parseImplementationPlan(content: string): ImplementationPlan {
   const lines = content.split("\n");
   const files: FileChange[] = [];
   const dependencies: string[] = [];
@@ -108,7 +128,7 @@ function parseImplementationPlan(content: string): ImplementationPlan {
  */
 function parseFileChange(line: string): FileChange | null {
   const match = line.match(
-    /\[(create|modify|delete)\]\s*([^\s-]+)\s*(?:-\s*(.*))?/i
+    /\[(create|modify|delete)\]\s*(\S+)\s*(?:-\s+(.*))?/i
   );
 
   if (match) {
@@ -132,6 +152,34 @@ function parseFileChange(line: string): FileChange | null {
   return null;
 }
 
+/**
+ * Summarize a parsed implementation plan as Markdown for the Linear session.
+ */
+export function formatPlanSummary(plan: ImplementationPlan): string {
+  let summary = "**Implementation plan**\n\n";
+
+  summary += `Files (${plan.files.length}):\n`;
+  for (const file of plan.files) {
+    summary += `- ${file.action} \`${file.path}\`${file.description ? ` - ${file.description}` : ""}\n`;
+  }
+  if (plan.files.length === 0) {
+    summary += "- None listed\n";
+  }
+
+  const sections: Array<[string, string[] | undefined]> = [
+    ["Dependencies", plan.dependencies],
+    ["Test commands", plan.testCommands],
+    ["Build commands", plan.buildCommands],
+  ];
+  for (const [title, items] of sections) {
+    if (items && items.length > 0) {
+      summary += `\n${title}:\n${items.map((item) => `- ${item}`).join("\n")}\n`;
+    }
+  }
+
+  return summary.trim();
+}
+
 /**
  * Generate a user prompt from the implementation plan for the agent.
  */
@@ -0,0 +1,143 @@
+import type { CommandSandbox } from "../sandbox/index.js";
+import type { ImplementationPlan } from "../types.js";
+import { runCommand, trimOutput } from "./envSetup.js";
+import {
+  detectSetupProviders,
+  getDefaultVerifyCommands,
+} from "./setupProviders.js";
+
+/**
+ * Result of running a single verification command.
+ */
+export interface CommandResult {
+  command: string;
+  success: boolean;
+  /** Combined output, trimmed to the configured limit */
+  output: string;
+  durationMs: number;
+}
+
+/**
+ * Result of running all verification commands once.
+ */
+export interface VerificationResult {
+  success: boolean;
+  commands: CommandResult[];
+}
+
+/**
+ * Options for running verification commands.
+ */
+export interface VerificationOptions {
+  cwd: string;
+  sandbox?: CommandSandbox;
+  /** Timeout for each command in milliseconds */
+  timeout?: number;
+  /** Maximum characters of output kept per command */
+  outputLimit?: number;
+}
+
+/**
+ * Get the commands to verify an implementation with: the plan's build and
+ * test commands, otherwise the configured repository commands, otherwise
+ * the default commands of the project's ecosystems, e.g. the build and test
+ * scripts of its package.json.
+ */
+export async function getVerificationCommands(
+  cwd: string,
+  plan: ImplementationPlan | null,
+  repositoryCommands?: string[]
+): Promise<string[]> {
+  const planCommands = [
+    ...(plan?.buildCommands ?? []),
+    ...(plan?.testCommands ?? []),
+  ];
+  if (planCommands.length > 0) {
+    return planCommands;
+  }
+
+  if (repositoryCommands && repositoryCommands.length > 0) {
+    return repositoryCommands;
+  }
+
+  return getDefaultVerifyCommands(await detectSetupProviders(cwd));
+}
+
+/**
+ * Run each verification command in turn. Every command runs, so the report
+ * covers all of them even when an early one fails.
+ */
+export async function runVerification(
+  commands: string[],
+  options: VerificationOptions
+): Promise<VerificationResult> {
+  const { cwd, sandbox, timeout = 600000, outputLimit = 4000 } = options;
+  const results: CommandResult[] = [];
+
+  for (const command of commands) {
+    const startedAt = Date.now();
+    console.log(`Verifying with: ${command}`);
+
+    try {
+      const { stdout, stderr } = await runCommand(
+        cwd,
+        command,
+        timeout,
+        sandbox
+      );
+      results.push({
+        command,
+        success: true,
+        output: trimOutput([stdout, stderr].join("\n"), outputLimit),
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      results.push({
+        command,
+        success: false,
+        output: trimOutput(
+          error instanceof Error ? error.message : "Unknown error",
+          outputLimit
+        ),
+        durationMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  return {
+    success: results.every((result) => result.success),
+    commands: results,
+  };
+}
+
+/**
+ * Format a verification result as Markdown for the Linear session.
+ */
+export function formatVerificationReport(
+  result: VerificationResult,
+  attempt: number,
+  maxAttempts: number
+): string {
+  const status = result.success ? "passed" : "failed";
+  const lines = result.commands.map((command) => {
+    const seconds = Math.round(command.durationMs / 1000);
+    return `- ${command.success ? "Passed" : "Failed"}: \`${command.command}\` (${seconds}s)`;
+  });
+
+  return `**Verification ${status}** (attempt ${attempt} of ${maxAttempts})\n\n${lines.join(
+    "\n"
+  )}`;
+}
+
+/**
+ * Format the output of the failed commands for the agent.
+ */
+export function formatVerificationFailures(result: VerificationResult): string {
+  return result.commands
+    .filter((command) => !command.success)
+    .map(
+      (command) =>
+        `### \`${command.command}\`\n\n\`\`\`\n${command.output}\n\`\`\``
+    )
+    .join("\n\n");
+}
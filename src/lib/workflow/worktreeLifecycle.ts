@@ -75,13 +75,16 @@ export async function createWorktree(
     // Fetch latest from remote
     await git.fetch("origin", baseBranch);
 
-    // Check if branch exists remotely
+    // Check if branch exists remotely, or locally from a previous (stopped) run
     const branches = await git.branch(["-r"]);
     const remoteBranch = `origin/${branchName}`;
-    const branchExists = branches.all.includes(remoteBranch);
+    const localBranches = await git.branchLocal();
+    const branchExists =
+      branches.all.includes(remoteBranch) ||
+      localBranches.all.includes(branchName);
 
     if (branchExists) {
-      // Create worktree from existing remote branch
+      // Create worktree from existing branch
       await git.raw(["worktree", "add", worktreePath, branchName]);
       console.log(`Created worktree from existing branch: ${branchName}`);
     } else {
@@ -142,6 +145,43 @@ export async function cleanupWorktree(
   }
 }
 
+/**
+ * Create a clean, detached checkout of the base branch, e.g. for answering
+ * questions without touching the main checkout. A leftover snapshot with the
+ * same name is replaced, so its path stays stable across runs. Remove it
+ * with cleanupWorktree.
+ */
+export async function createSnapshot(config: WorktreeConfig): Promise<string> {
+  const { repoBasePath, repoName, branchName, baseBranch } = config;
+
+  const mainRepoPath = path.join(repoBasePath, repoName);
+  const snapshotPath = path.join(
+    repoBasePath,
+    ".worktrees",
+    repoName,
+    branchName
+  );
+
+  const git: SimpleGit = simpleGit(mainRepoPath);
+
+  await cleanupWorktree(repoBasePath, repoName, branchName);
+  // Remove what is left of a snapshot git no longer knows about
+  await fs.rm(snapshotPath, { recursive: true, force: true });
+  await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+
+  await git.fetch("origin", baseBranch);
+  await git.raw([
+    "worktree",
+    "add",
+    "--detach",
+    snapshotPath,
+    `origin/${baseBranch}`,
+  ]);
+  console.log(`Created snapshot of ${baseBranch} at: ${snapshotPath}`);
+
+  return snapshotPath;
+}
+
 /**
  * Get the status of a worktree.
  */
@@ -201,6 +241,97 @@ export async function commitAndPush(
   return { commitHash };
 }
 
+/**
+ * Push a branch that has no uncommitted changes, e.g. when the agent already
+ * committed its work.
+ */
+export async function pushBranch(
+  worktreePath: string,
+  branchName: string
+): Promise<void> {
+  const git: SimpleGit = simpleGit(worktreePath);
+  await git.push("origin", branchName, ["--set-upstream"]);
+  console.log(`Pushed branch: ${branchName}`);
+}
+
+/**
+ * A file changed on a worktree branch relative to its base branch.
+ */
+export interface ChangedFile {
+  path: string;
+  status: "added" | "modified" | "deleted" | "renamed";
+  /** The old path of a renamed file */
+  previousPath?: string;
+}
+
+/**
+ * List the files changed on the worktree branch since it left the base
+ * branch, including uncommitted and untracked changes.
+ */
+export async function getChangedFiles(
+  worktreePath: string,
+  baseBranch: string
+): Promise<ChangedFile[]> {
+  const git: SimpleGit = simpleGit(worktreePath);
+  const mergeBase = (
+    await git.raw(["merge-base", `origin/${baseBranch}`, "HEAD"])
+  ).trim();
+  const output = await git.raw(["diff", "--name-status", "-M", mergeBase]);
+  const status = await git.status();
+
+  const statuses: Record<string, ChangedFile["status"]> = {
+    A: "added",
+    M: "modified",
+    D: "deleted",
+    R: "renamed",
+  };
+
+  const changedFiles: ChangedFile[] = output
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [code, ...paths] = line.split("\t");
+      const fileStatus = statuses[code.charAt(0)] ?? "modified";
+      return {
+        // Renames list the old and the new path
+        path: paths[paths.length - 1],
+        status: fileStatus,
+        previousPath: fileStatus === "renamed" ? paths[0] : undefined,
+      };
+    });
+
+  for (const untrackedPath of status.not_added) {
+    changedFiles.push({ path: untrackedPath, status: "added" });
+  }
+
+  return changedFiles;
+}
+
+/**
+ * Count the commits on the worktree branch that are not on the base branch.
+ */
+export async function countCommitsAhead(
+  worktreePath: string,
+  baseBranch: string
+): Promise<number> {
+  const git: SimpleGit = simpleGit(worktreePath);
+  const output = await git.raw([
+    "rev-list",
+    "--count",
+    `origin/${baseBranch}..HEAD`,
+  ]);
+  return parseInt(output.trim(), 10) || 0;
+}
+
+/**
+ * Get the URL of the origin remote.
+ */
+export async function getRemoteUrl(repoPath: string): Promise<string> {
+  const git: SimpleGit = simpleGit(repoPath);
+  const output = await git.remote(["get-url", "origin"]);
+  return (output || "").trim();
+}
+
 /**
  * Generate a branch name from a ticket identifier.
  */